@@ -0,0 +1,25 @@
+import { describe, expect, test } from '@jest/globals'
+import { Person } from '../src/example/index'
+
+/**
+ * Returns the average duration of `fn` in milliseconds.
+ */
+const measure = (iterations: number, fn: () => void): number => {
+  const start = process.hrtime.bigint()
+  for (let i = 0; i < iterations; i++) fn()
+  return Number(process.hrtime.bigint() - start) / 1e6 / iterations
+}
+
+describe('Benchmark', () => {
+  test('fromJSON() with cached validators should outperform recompiling', () => {
+    const json = Person.example().serialize()
+
+    const uncached = measure(50, () => {
+      Person.clearSchemaCache()
+      Person.fromJSON(json)
+    })
+    const cached = measure(1000, () => Person.fromJSON(json))
+
+    expect(cached * 10).toBeLessThan(uncached)
+  })
+})
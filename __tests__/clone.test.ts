@@ -0,0 +1,113 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { EntityValidationError, registerCodec, SchemaHint } from '../src/index'
+import { Person } from '../src/example/Person'
+import { Address } from '../src/example/Address'
+
+class Money {
+  constructor(public amount: number = 0, public currency: string = 'JPY') {}
+}
+
+registerCodec<Money, string>('clone-money', {
+  schema: { type: 'string' },
+  encode: value => `${value.amount} ${value.currency}`,
+  decode: json => new Money(Number(json.split(' ')[0]), json.split(' ')[1]),
+})
+
+class Invoice extends SmartEntity<Invoice> {
+  protected _requiredFields = ['number']
+  protected _schemaHints: Record<string, SchemaHint> = {
+    number: { type: 'string', minLength: 1 },
+    issuedAt: { type: 'date-time' },
+    total: { type: 'clone-money' },
+    ratio: { type: 'number' },
+    lines: { type: 'array', items: { type: 'object', entity: Address } },
+    metadata: { type: 'object' },
+  }
+
+  note?: string = undefined
+  metadata: { tags: string[]; [key: string]: unknown } = { tags: ['a'] }
+
+  constructor(
+    public number: string = '',
+    public issuedAt: Date = new Date('2025-03-20T10:30:00Z'),
+    public total: Money = new Money(12),
+    public ratio: number = NaN,
+    public lines: Address[] = []
+  ) {
+    super()
+  }
+}
+
+describe('clone()', () => {
+  test('should keep what JSON cannot hold', () => {
+    const invoice = new Invoice('A-1', new Date('2025-01-01T00:00:00Z'), new Money(5), Infinity)
+    const clone = invoice.clone()
+
+    expect(Object.keys(clone)).toContain('note')
+    expect(clone.note).toBeUndefined()
+    expect(clone.issuedAt).toEqual(invoice.issuedAt)
+    expect(clone.issuedAt).not.toBe(invoice.issuedAt)
+    expect(clone.ratio).toBe(Infinity)
+    expect(new Invoice().clone().ratio).toBeNaN()
+  })
+
+  test('should copy fields with a codec through it', () => {
+    const invoice = new Invoice('A-1')
+    const clone = invoice.clone()
+
+    expect(clone.total).toBeInstanceOf(Money)
+    expect(clone.total).toEqual(invoice.total)
+    expect(clone.total).not.toBe(invoice.total)
+  })
+
+  test('should keep the classes of nested entities', () => {
+    const person = Person.example()
+    const clone = person.clone()
+
+    expect(clone).toBeInstanceOf(Person)
+    expect(clone.address).toBeInstanceOf(Address)
+    expect(clone.address).not.toBe(person.address)
+    expect(clone.hobbies).not.toBe(person.hobbies)
+    expect(clone.toObject()).toEqual(person.toObject())
+  })
+
+  test('should clone drafts unless asked to validate', () => {
+    const draft = new Invoice()
+
+    expect(draft.clone().number).toBe('')
+    expect(() => draft.clone({ validate: true })).toThrow(EntityValidationError)
+    expect(new Invoice('A-1', undefined, undefined, 1).clone({ validate: true })).toBeInstanceOf(Invoice)
+  })
+
+  test('should share the values held by the fields when shallow', () => {
+    const invoice = new Invoice('A-1', undefined, undefined, 1, [Address.example()])
+    const clone = invoice.clone({ deep: false })
+
+    expect(clone).toBeInstanceOf(Invoice)
+    expect(clone).not.toBe(invoice)
+    expect(clone.lines).toBe(invoice.lines)
+    expect(clone.metadata).toBe(invoice.metadata)
+  })
+
+  test('should copy shared values and cycles once', () => {
+    const address = Address.example()
+    const invoice = new Invoice('A-1', undefined, undefined, 1, [address, address])
+    invoice.metadata.self = invoice
+    const clone = invoice.clone()
+
+    expect(clone.lines[0]).toBe(clone.lines[1])
+    expect(clone.lines[0]).not.toBe(address)
+    expect(clone.metadata.self).toBe(clone)
+    expect(clone.metadata.tags).not.toBe(invoice.metadata.tags)
+  })
+
+  test('should not modify the entity', () => {
+    const invoice = new Invoice('A-1', undefined, undefined, 1, [Address.example()])
+    const before = invoice.toObject()
+    const clone = invoice.clone()
+    clone.lines[0].address = 'osaka'
+    clone.metadata.tags.push('b')
+
+    expect(invoice.toObject()).toEqual(before)
+  })
+})
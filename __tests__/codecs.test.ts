@@ -0,0 +1,190 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { EntityValidationError, registerCodec } from '../src/index'
+
+class Money {
+  constructor(
+    public amount: number,
+    public currency: string
+  ) {}
+
+  toString(): string {
+    return `${this.amount.toFixed(2)} ${this.currency}`
+  }
+}
+
+registerCodec<Money, string>('money', {
+  schema: { type: 'string', pattern: '^-?[0-9]+\\.[0-9]{2} [A-Z]{3}$' },
+  encode: value => (value instanceof Money ? value.toString() : value),
+  decode: json => {
+    const [amount, currency] = json.split(' ')
+    return new Money(Number(amount), currency)
+  },
+})
+
+class EventModel extends SmartEntity<EventModel> {
+  protected _maskableFields = []
+  protected _requiredFields = ['day', 'startAt']
+  protected _schemaHints = {
+    day: { type: 'date' },
+    startAt: { type: 'date-time' },
+    endAt: { type: 'date-time', nullable: true },
+    amount: { type: 'bigint' },
+    labels: { type: 'map' },
+    tags: { type: 'set' },
+    link: { type: 'url' },
+    history: { type: 'array', items: { type: 'date-time' } },
+  }
+
+  constructor(
+    public day: Date = new Date(NaN),
+    public startAt: Date = new Date(NaN),
+    public endAt: Date | null = null,
+    public amount: bigint = BigInt(0),
+    public labels: Map<string, string> = new Map(),
+    public tags: Set<string> = new Set(),
+    public link?: URL,
+    public history: Date[] = []
+  ) {
+    super()
+  }
+
+  static example(): EventModel {
+    return new EventModel(
+      new Date('2025-03-20T00:00:00.000Z'),
+      new Date('2025-03-20T10:30:00.000Z'),
+      null,
+      BigInt('9007199254740993'),
+      new Map([['room', 'A']]),
+      new Set(['team', 'weekly']),
+      new URL('https://example.com/events/1'),
+      [new Date('2025-03-19T09:00:00.000Z')]
+    )
+  }
+}
+
+class OrderModel extends SmartEntity<OrderModel> {
+  protected _maskableFields = ['total']
+  protected _requiredFields = ['total']
+  protected _schemaHints = {
+    total: { type: 'money' },
+    discount: { type: 'money', nullable: true },
+    items: { type: 'array', items: { type: 'money' } },
+  }
+
+  constructor(
+    public total: Money | null = null,
+    public discount: Money | null = null,
+    public items: Money[] = []
+  ) {
+    super()
+  }
+}
+
+describe('Field codecs', () => {
+  test('toObject() should encode fields to their JSON shape', () => {
+    expect(EventModel.example().toObject()).toEqual({
+      day: '2025-03-20',
+      startAt: '2025-03-20T10:30:00.000Z',
+      endAt: null,
+      amount: '9007199254740993',
+      labels: { room: 'A' },
+      tags: ['team', 'weekly'],
+      link: 'https://example.com/events/1',
+      history: ['2025-03-19T09:00:00.000Z'],
+    })
+  })
+
+  test('fromJSON() should decode fields to their runtime type', () => {
+    const target = EventModel.fromJSON(EventModel.example().serialize()) as EventModel
+
+    expect(target.day).toBeInstanceOf(Date)
+    expect(target.day.toISOString()).toBe('2025-03-20T00:00:00.000Z')
+    expect(target.startAt).toEqual(new Date('2025-03-20T10:30:00.000Z'))
+    expect(target.endAt).toBeNull()
+    expect(target.amount).toBe(BigInt('9007199254740993'))
+    expect(target.labels).toEqual(new Map([['room', 'A']]))
+    expect(target.tags).toEqual(new Set(['team', 'weekly']))
+    expect(target.link).toBeInstanceOf(URL)
+    expect(target.link?.href).toBe('https://example.com/events/1')
+    expect(target.history).toEqual([new Date('2025-03-19T09:00:00.000Z')])
+  })
+
+  test('clone() should keep the runtime types of fields', () => {
+    const target = EventModel.example()
+    const clone = target.clone()
+
+    expect(clone.startAt).toBeInstanceOf(Date)
+    expect(clone.startAt).not.toBe(target.startAt)
+    expect(clone.amount).toBe(target.amount)
+    expect(clone.labels).toBeInstanceOf(Map)
+    expect(clone.tags).toBeInstanceOf(Set)
+    expect(clone.link).toBeInstanceOf(URL)
+  })
+
+  test('getJsonSchema() should describe the JSON shape of fields', () => {
+    const properties = EventModel.getJsonSchema().properties
+
+    expect(properties?.day).toMatchObject({ type: 'string', format: 'date' })
+    expect(properties?.startAt).toMatchObject({ type: 'string', format: 'date-time' })
+    expect(properties?.endAt).toMatchObject({ type: 'string', nullable: true })
+    expect(properties?.amount).toMatchObject({ type: 'string', pattern: '^-?[0-9]+$' })
+    expect(properties?.labels).toMatchObject({ type: 'object' })
+    expect(properties?.tags).toMatchObject({ type: 'array', uniqueItems: true })
+    expect(properties?.link).toMatchObject({ type: 'string', format: 'uri' })
+    expect(properties?.history?.items).toMatchObject({ type: 'string', format: 'date-time' })
+  })
+
+  test('fromJSON() should reject values that do not match the format', () => {
+    const json = JSON.stringify({
+      day: '2025-03-20T10:30:00Z',
+      startAt: 'tomorrow',
+      amount: '1.5',
+      tags: ['a', 'a'],
+      link: 'not a url',
+    })
+
+    const result = EventModel.safeFromJSON(json)
+    expect(result.errors.map(err => err.path).sort()).toEqual([
+      '/amount',
+      '/day',
+      '/link',
+      '/startAt',
+      '/tags',
+    ])
+  })
+
+  test('validate() should reject invalid dates', () => {
+    expect(() => new EventModel().validate()).toThrow(EntityValidationError)
+  })
+
+  test('registered codecs should encode, decode and validate fields', () => {
+    const target = new OrderModel(new Money(12, 'JPY'), null, [new Money(5, 'JPY'), new Money(7, 'JPY')])
+
+    expect(target.toObject()).toEqual({
+      total: '12.00 JPY',
+      discount: null,
+      items: ['5.00 JPY', '7.00 JPY'],
+    })
+
+    const clone = target.clone()
+    expect(clone.total).toBeInstanceOf(Money)
+    expect(clone.total).toEqual(new Money(12, 'JPY'))
+    expect(clone.items[1]).toEqual(new Money(7, 'JPY'))
+
+    expect(OrderModel.safeFromJSON('{"total": "12 JPY"}').errors).toEqual([
+      expect.objectContaining({ path: '/total', keyword: 'pattern' }),
+    ])
+  })
+
+  test('registered codecs should keep masking working', () => {
+    const target = new OrderModel(new Money(12, 'JPY'))
+
+    expect(target.toObject({ mask: true }).total).toBe('*********')
+  })
+
+  test('registerCodec() should reject JSON Schema type names', () => {
+    expect(() =>
+      registerCodec('string', { schema: {}, encode: v => v, decode: v => v })
+    ).toThrow(/JSON Schema type/)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, jest, test } from '@jest/globals'
+import SmartEntity, { TypeCoercion } from '../src/index'
+
+class Filter extends SmartEntity<Filter> {
+  protected _requiredFields = ['page', 'size']
+  protected _schemaHints = {
+    page: { type: 'integer', minimum: 1 },
+    size: { type: 'integer', default: 20 },
+    active: { type: 'boolean' },
+    since: { type: 'date-time', default: '2024-01-01T00:00:00.000Z' },
+    labels: { type: 'array', items: { type: 'number' }, default: [] },
+  }
+
+  constructor(
+    public page: number = 1,
+    public size: number = 10,
+    public active?: boolean,
+    public since?: Date,
+    public labels: number[] = [1]
+  ) {
+    super()
+  }
+}
+
+class FormFilter extends Filter {
+  protected _coerceTypes = true
+}
+
+describe('coercion', () => {
+  test('should reject strings for number fields by default', () => {
+    const result = Filter.safeFromObject({ page: '2' })
+
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([['/page', 'type']])
+  })
+
+  test('should coerce values when enabled per call', () => {
+    const data = { page: '2', active: 'true', labels: ['1', '2.5'] }
+    const filter = Filter.fromObject(data, { coerceTypes: true })
+
+    expect(filter.page).toBe(2)
+    expect(filter.active).toBe(true)
+    expect(filter.labels).toEqual([1, 2.5])
+    expect(data).toEqual({ page: '2', active: 'true', labels: ['1', '2.5'] })
+  })
+
+  test('should coerce values when enabled on the class', () => {
+    expect(FormFilter.fromJSON('{"page":"3"}').page).toBe(3)
+    expect(FormFilter.safeFromJSON('{"page":"3"}', { coerceTypes: false }).success).toBe(false)
+  })
+
+  test('should still reject values that cannot be coerced', () => {
+    const result = Filter.safeFromObject({ page: 'abc', active: 'maybe' }, { coerceTypes: true })
+
+    expect(result.errors.map(error => error.path)).toEqual(['/page', '/active'])
+  })
+
+  test('should report the coercions', () => {
+    const coercions: TypeCoercion[] = []
+
+    Filter.fromObject({ page: '2', size: 5, labels: ['1'] }, {
+      coerceTypes: true,
+      onCoercion: coercion => coercions.push(coercion),
+    })
+
+    expect(coercions).toEqual([
+      { path: '/page', from: '2', to: 2 },
+      { path: '/labels/0', from: '1', to: 1 },
+    ])
+  })
+
+  test('should report the coercions to the hook of the class', () => {
+    const hook = jest.fn<(coercion: TypeCoercion) => void>()
+    FormFilter.onCoercion = hook
+
+    FormFilter.fromObject({ page: '4' })
+
+    expect(hook).toHaveBeenCalledWith({ path: '/page', from: '4', to: 4 })
+    FormFilter.onCoercion = SmartEntity.onCoercion
+  })
+})
+
+describe('default values', () => {
+  test('should give missing fields their declared default', () => {
+    const filter = Filter.fromObject({ page: 2 })
+
+    expect(filter.size).toBe(20)
+    expect(filter.since).toEqual(new Date('2024-01-01T00:00:00.000Z'))
+    expect(filter.labels).toEqual([])
+    expect(filter.active).toBeUndefined()
+  })
+
+  test('should satisfy required fields with defaults', () => {
+    expect(Filter.safeFromObject({ page: 2 }).success).toBe(true)
+    expect(Filter.safeFromObject({}).errors.map(error => error.path)).toEqual(['/page'])
+  })
+
+  test('should not share default values between instances', () => {
+    const first = Filter.fromObject({ page: 1 })
+    first.labels.push(1)
+
+    expect(Filter.fromObject({ page: 1 }).labels).toEqual([])
+  })
+
+  test('should keep given values', () => {
+    expect(Filter.fromObject({ page: 1, size: 50 }).size).toBe(50)
+  })
+
+  test('should describe the defaults in the JSON schema', () => {
+    const schema = Filter.getJsonSchema()
+
+    expect(schema.properties.size.default).toBe(20)
+    expect(schema.properties.labels.default).toEqual([])
+    expect(schema.properties.page).not.toHaveProperty('default')
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, {
+  arrayOf,
+  EntityValidationError,
+  field,
+  masked,
+  nested,
+  required,
+} from '../src/index'
+
+class Contact extends SmartEntity<Contact> {
+  @field({ type: 'string', minLength: 1 })
+  @required
+  @masked
+  phone: string | null = null
+
+  @field({ type: 'string', nullable: true })
+  label: string | null = null
+
+  constructor(phone: string | null = null, label: string | null = null) {
+    super()
+    this.phone = phone
+    this.label = label
+  }
+}
+
+class Customer extends SmartEntity<Customer> {
+  @field({ type: 'string' })
+  @required
+  @masked
+  name: string | null = null
+
+  @nested(Contact, { nullable: true })
+  primary: Contact | null = null
+
+  @arrayOf(Contact)
+  @required
+  contacts: Contact[] = []
+
+  @arrayOf({ type: 'string', minLength: 2 })
+  tags: string[] = []
+}
+
+class VipCustomer extends Customer {
+  @field({ type: 'number', minimum: 1, maximum: 3 })
+  @required
+  rank: number = 1
+}
+
+class MixedModel extends SmartEntity<MixedModel> {
+  protected _maskableFields = ['secret']
+  protected _requiredFields = ['secret']
+  protected _schemaHints = {
+    secret: { type: 'string' },
+  }
+
+  @field({ type: 'number' })
+  @required
+  count: number = 0
+
+  constructor(public secret: string | null = null) {
+    super()
+  }
+}
+
+/**
+ * Applies field decorators the way legacy `experimentalDecorators` does.
+ */
+class LegacyModel extends SmartEntity<LegacyModel> {
+  name: string | null = null
+  address: Contact | null = null
+}
+field({ type: 'string' })(LegacyModel.prototype, 'name')
+required(LegacyModel.prototype, 'name')
+masked(LegacyModel.prototype, 'name')
+nested(Contact, { nullable: true })(LegacyModel.prototype, 'address')
+
+describe('Field decorators', () => {
+  test('getJsonSchema() should be built from decorators', () => {
+    const schema = Customer.getJsonSchema()
+
+    expect(schema.properties?.name).toMatchObject({ type: 'string' })
+    expect(schema.properties?.primary).toMatchObject({
+      ...Contact.getJsonSchema(),
+      nullable: true,
+    })
+    expect(schema.properties?.contacts?.items).toMatchObject(Contact.getJsonSchema())
+    expect(schema.properties?.tags?.items).toMatchObject({ type: 'string', minLength: 2 })
+    expect(schema.required).toEqual(['name', 'contacts'])
+  })
+
+  test('fromJSON() should validate and rehydrate decorated entities', () => {
+    const json = JSON.stringify({
+      name: 'Alice',
+      primary: { phone: '090-1234-5678', label: 'mobile' },
+      contacts: [{ phone: '03-1234-5678' }],
+      tags: ['vip'],
+    })
+    const target = Customer.fromJSON(json) as Customer
+
+    expect(target).toBeInstanceOf(Customer)
+    expect(target.primary).toBeInstanceOf(Contact)
+    expect(target.contacts[0]).toBeInstanceOf(Contact)
+    expect(target.contacts[0].phone).toBe('03-1234-5678')
+
+    expect(() => Customer.fromJSON('{"name": "Alice", "contacts": [{}]}')).toThrow(
+      EntityValidationError
+    )
+  })
+
+  test('toObject() should mask decorated fields', () => {
+    const target = new Customer()
+    target.name = 'Alice'
+    target.contacts = [new Contact('0312345678', 'home')]
+
+    expect(target.toObject({ mask: true })).toEqual({
+      name: '*****',
+      primary: null,
+      contacts: [{ phone: '**********', label: 'home' }],
+      tags: [],
+    })
+  })
+
+  test('decorators should be inherited by subclasses', () => {
+    const schema = VipCustomer.getJsonSchema()
+
+    expect(Object.keys(schema.properties ?? {})).toEqual([
+      'name',
+      'primary',
+      'contacts',
+      'tags',
+      'rank',
+    ])
+    expect(schema.required).toEqual(['name', 'contacts', 'rank'])
+    expect(Customer.getJsonSchema().properties).not.toHaveProperty('rank')
+  })
+
+  test('decorators should be merged with hint-based fields', () => {
+    const schema = MixedModel.getJsonSchema()
+
+    expect(Object.keys(schema.properties ?? {})).toEqual(['count', 'secret'])
+    expect(schema.required).toEqual(['count', 'secret'])
+    expect(new MixedModel('key').toObject({ mask: true })).toEqual({ count: 0, secret: '***' })
+  })
+
+  test('legacy decorators should write the same metadata', () => {
+    const schema = LegacyModel.getJsonSchema()
+
+    expect(schema.properties?.name).toMatchObject({ type: 'string' })
+    expect(schema.properties?.address).toMatchObject({ type: 'object', nullable: true })
+    expect(schema.required).toEqual(['name'])
+
+    const target = LegacyModel.fromJSON('{"name": "Bob", "address": {"phone": "1"}}') as LegacyModel
+    expect(target.address).toBeInstanceOf(Contact)
+    expect(target.toObject({ mask: true })).toEqual({
+      name: '***',
+      address: { phone: '*', label: null },
+    })
+  })
+})
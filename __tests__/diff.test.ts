@@ -0,0 +1,56 @@
+import { describe, expect, test } from '@jest/globals'
+import { diffJson } from '../src/diff'
+
+describe('diffJson()', () => {
+  test('should return no changes for equal values', () => {
+    expect(diffJson({ a: 1, b: [1, { c: 'd' }] }, { a: 1, b: [1, { c: 'd' }] })).toEqual([])
+  })
+
+  test('should report added, removed and changed properties', () => {
+    expect(diffJson({ a: 1, b: 2, n: { x: 1 } }, { a: 1, b: 3, c: 4, n: {} })).toEqual([
+      { type: 'changed', path: '/b', from: 2, to: 3 },
+      { type: 'removed', path: '/n/x', from: 1 },
+      { type: 'added', path: '/c', to: 4 },
+    ])
+  })
+
+  test('should compare arrays by index', () => {
+    expect(diffJson({ list: [1, 2, 3] }, { list: [1, 5] })).toEqual([
+      { type: 'changed', path: '/list/1', from: 2, to: 5 },
+      { type: 'removed', path: '/list/2', from: 3 },
+    ])
+    expect(diffJson({ list: [] }, { list: [{ a: 1 }] })).toEqual([
+      { type: 'added', path: '/list/0', to: { a: 1 } },
+    ])
+  })
+
+  test('should report a type change as a single change', () => {
+    expect(diffJson({ a: { b: 1 } }, { a: null })).toEqual([
+      { type: 'changed', path: '/a', from: { b: 1 }, to: null },
+    ])
+    expect(diffJson({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { type: 'changed', path: '/a', from: [1], to: { 0: 1 } },
+    ])
+  })
+
+  test('should not take inherited names for properties', () => {
+    expect(diffJson({ meta: { toString: 'x' } }, { meta: {} })).toEqual([
+      { type: 'removed', path: '/meta/toString', from: 'x' },
+    ])
+    expect(diffJson({}, { constructor: 'x' })).toEqual([{ type: 'added', path: '/constructor', to: 'x' }])
+  })
+
+  test('should escape keys in paths', () => {
+    expect(diffJson({ 'a/b': 1, 'm~n': 1 }, { 'a/b': 2, 'm~n': 2 })).toEqual([
+      { type: 'changed', path: '/a~1b', from: 1, to: 2 },
+      { type: 'changed', path: '/m~0n', from: 1, to: 2 },
+    ])
+  })
+
+  test('should report the values of the reported documents', () => {
+    expect(diffJson({ a: 'x', b: 'y' }, { a: 'xx' }, { a: '*', b: '*' }, { a: '**' })).toEqual([
+      { type: 'changed', path: '/a', from: '*', to: '**' },
+      { type: 'removed', path: '/b', from: '*' },
+    ])
+  })
+})
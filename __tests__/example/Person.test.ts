@@ -93,6 +93,46 @@ describe('Person Class', () => {
     expect(parsedJson.address?.address).toContain('*')
   })
 
+  test('serialize() should return pretty and masked JSON', () => {
+    const person = new Person(
+      '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+      'Alice',
+      30,
+      true,
+      1,
+      ['reading', 'video game'],
+      new Address('123-4567', 'tokyo')
+    )
+    const json = person.serialize({pretty: true, mask: true})
+
+    expect(json).toContain('\n')
+    expect(JSON.parse(json)).toEqual(person.toObject({mask: true}))
+  })
+
+  test('JSON.stringify() should serialize a Person nested in a plain object', () => {
+    const person = new Person(
+      '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+      'Alice',
+      30,
+      true,
+      1,
+      ['reading', 'video game'],
+      new Address('123-4567', 'tokyo')
+    )
+
+    expect(JSON.parse(JSON.stringify({data: person}))).toEqual({
+      data: {
+        id: '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+        name: 'Alice',
+        age: 30,
+        isActive: true,
+        createAt: 1,
+        hobbies: ['reading', 'video game'],
+        address: {postalCode: '123-4567', address: 'tokyo'}
+      }
+    })
+  })
+
   test('fromJSON() should create a valid Person instance', () => {
     const json = JSON.stringify({
       id: 'b46021c4-2cf2-4167-a31c-50c9d297e6b8',
@@ -117,6 +157,57 @@ describe('Person Class', () => {
     expect(person.address?.address).toBe('tokyo')
   })
 
+  test('fromJSON() should rehydrate the address as an Address instance', () => {
+    const json = JSON.stringify({
+      id: 'b46021c4-2cf2-4167-a31c-50c9d297e6b8',
+      name: 'Alice2',
+      address: {postalCode: '123-4567', address: 'tokyo'}
+    })
+
+    const person = Person.fromJSON(json) as Person
+
+    expect(person.address).toBeInstanceOf(Address)
+    expect(JSON.parse(person.address!.toJSON(false, true))).toEqual({
+      postalCode: '********',
+      address: '*****'
+    })
+    expect(person.address!.clone()).toBeInstanceOf(Address)
+  })
+
+  test('fromObject() should create a valid Person instance', () => {
+    const person = Person.fromObject({
+      id: 'b46021c4-2cf2-4167-a31c-50c9d297e6b8',
+      name: 'Alice2',
+      address: {postalCode: '123-4567', address: 'tokyo'}
+    }) as Person
+
+    expect(person).toBeInstanceOf(Person)
+    expect(person.name).toBe('Alice2')
+    expect(person.address).toBeInstanceOf(Address)
+  })
+
+  test('toObject() should mask sensitive fields', () => {
+    const person = new Person(
+      '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+      'Alice',
+      30,
+      true,
+      1,
+      ['reading', 'video game'],
+      new Address('123-4567', 'tokyo')
+    )
+
+    expect(person.toObject({mask: true})).toEqual({
+      id: '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+      name: '*****',
+      age: 30,
+      isActive: true,
+      createAt: 1,
+      hobbies: ['reading', 'video game'],
+      address: {postalCode: '********', address: '*****'}
+    })
+  })
+
   test('fromJSON() should not create a invalid Person instance', () => {
     const json = JSON.stringify({
       uudid: 'b46021c4-2cf2-4167-a31c-50c9d297e6b8',
@@ -153,6 +244,8 @@ describe('Person Class', () => {
     expect(person.address?.address).toBe(clone.address?.address)
 
     expect(person).not.toBe(clone) // not equal reference
+    expect(clone.address).toBeInstanceOf(Address)
+    expect(person.address).not.toBe(clone.address) // not equal reference
   })
 
   test('example() should create a example', () => {
@@ -182,6 +275,12 @@ describe('Person Class', () => {
     expect(schema.additionalProperties).toBe(false)
   })
 
+  test('fromJSON() should reject an id that is not a UUID', () => {
+    const result = Person.safeFromJSON('{"id": "42", "name": "Alice"}')
+
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([['/id', 'format']])
+  })
+
   test('validate() should validate a valid Address instance', () => {
     const person = Person.example() as Person
 
@@ -193,4 +292,53 @@ describe('Person Class', () => {
 
     expect(() => person.validate()).toThrow(/Validation failed: /)
   })
+
+  test('diff() should list the changes between two Person instances', () => {
+    const person = new Person(
+      '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+      'Alice',
+      30,
+      true,
+      1,
+      ['reading'],
+      new Address('123-4567', 'tokyo')
+    )
+    const other = person.withPatch({
+      name: 'Bob',
+      age: undefined,
+      hobbies: ['reading', 'golf'],
+      address: new Address('123-4567', 'osaka')
+    })
+
+    expect(person.diff(other)).toEqual([
+      {type: 'changed', path: '/name', from: 'Alice', to: 'Bob'},
+      {type: 'removed', path: '/age', from: 30},
+      {type: 'added', path: '/hobbies/1', to: 'golf'},
+      {type: 'changed', path: '/address/address', from: 'tokyo', to: 'osaka'}
+    ])
+    expect(person.diff(person.clone())).toEqual([])
+  })
+
+  test('diff() should redact sensitive fields', () => {
+    const person = new Person(
+      '4c581c64-94fc-4880-b6e1-6130fbdc7fab',
+      'Alice',
+      30,
+      true,
+      1,
+      [],
+      new Address('123-4567', 'tokyo')
+    )
+    const other = person.withPatch({
+      name: 'Bob',
+      age: 31,
+      address: new Address('765-4321', 'tokyo')
+    })
+
+    expect(person.diff(other, {redact: true})).toEqual([
+      {type: 'changed', path: '/name', from: '*****', to: '***'},
+      {type: 'changed', path: '/age', from: 30, to: 31},
+      {type: 'changed', path: '/address/postalCode', from: '********', to: '********'}
+    ])
+  })
 })
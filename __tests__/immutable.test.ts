@@ -0,0 +1,197 @@
+import { describe, expect, test } from '@jest/globals'
+import { expectTypeOf } from 'expect-type'
+import SmartEntity, { EntityValidationError, immutable, SchemaHint } from '../src/index'
+import { Address, Person } from '../src/example/index'
+
+@immutable
+class Place extends SmartEntity<Place> {
+  protected _requiredFields = ['city']
+  protected _schemaHints: Record<string, SchemaHint> = {
+    city: { type: 'string', minLength: 1 },
+    zip: { type: 'string' },
+  }
+
+  constructor(public city: string = 'tokyo', public zip: string = '100-0001') {
+    super()
+  }
+}
+
+@immutable
+class Resident extends SmartEntity<Resident> {
+  protected _requiredFields = ['name']
+  protected _schemaHints: Record<string, SchemaHint> = {
+    name: { type: 'string', minLength: 1 },
+    home: { type: 'object', entity: Place },
+    tags: { type: 'array', items: { type: 'string' } },
+    previous: { type: 'array', items: { type: 'object', entity: Place } },
+  }
+
+  constructor(
+    public name: string = 'Alice',
+    public home: Place = new Place(),
+    public tags: string[] = ['a'],
+    public previous: Place[] = [new Place('osaka')]
+  ) {
+    super()
+  }
+}
+
+@immutable
+class Schedule extends SmartEntity<Schedule> {
+  protected _schemaHints: Record<string, SchemaHint> = {
+    at: { type: 'date-time' },
+    tags: { type: 'set' },
+    slots: { type: 'map' },
+  }
+
+  constructor(
+    public at: Date = new Date('2025-01-01T00:00:00Z'),
+    public tags: Set<string> = new Set(['a']),
+    public slots: Map<string, unknown> = new Map([['x', { hour: 1 }]])
+  ) {
+    super()
+  }
+}
+
+class Visitor extends SmartEntity<Visitor> {
+  protected _immutable = true
+  protected _schemaHints: Record<string, SchemaHint> = { name: { type: 'string' } }
+
+  constructor(public name: string = 'Bob') {
+    super()
+  }
+}
+
+const payload = {
+  name: 'Alice',
+  home: { city: 'tokyo', zip: '100-0001' },
+  tags: ['a', 'b'],
+  previous: [{ city: 'osaka', zip: '530-0001' }],
+}
+
+/**
+ * Returns whether a resident and all the values it holds are frozen.
+ */
+const isDeepFrozen = (resident: Resident): boolean =>
+  [resident, resident.home, resident.tags, resident.previous, ...resident.previous].every(value => Object.isFrozen(value))
+
+describe('immutable entities', () => {
+  test('should be deep-frozen when constructed', () => {
+    const resident = new Resident()
+
+    expect(isDeepFrozen(resident)).toBe(true)
+    expect(Object.isFrozen(new Place())).toBe(true)
+    expect(() => {
+      resident.name = 'Bob'
+    }).toThrow(TypeError)
+    expect(() => {
+      resident.home.city = 'kyoto'
+    }).toThrow(TypeError)
+    expect(() => resident.tags.push('c')).toThrow(TypeError)
+  })
+
+  test('should refuse the mutating methods of dates, maps and sets', () => {
+    const schedule = Schedule.fromObject({ at: '2025-03-20T10:30:00Z', tags: ['a'], slots: { x: { hour: 1 } } })
+
+    expect(() => schedule.at.setFullYear(1999)).toThrow('Cannot call setFullYear() on a frozen Date')
+    expect(() => schedule.tags.add('b')).toThrow(TypeError)
+    expect(() => schedule.tags.clear()).toThrow(TypeError)
+    expect(() => schedule.slots.set('z', 2)).toThrow('Cannot call set() on a frozen Map')
+    expect(() => schedule.slots.delete('x')).toThrow(TypeError)
+    expect(Object.isFrozen(schedule.slots.get('x'))).toBe(true)
+    expect(schedule.at.getUTCFullYear()).toBe(2025)
+    expect(Array.from(schedule.tags)).toEqual(['a'])
+    expect(schedule.slots.size).toBe(1)
+    expect(schedule.serialize()).toBe('{"at":"2025-03-20T10:30:00.000Z","tags":["a"],"slots":{"x":{"hour":1}}}')
+  })
+
+  test('should keep the class name', () => {
+    expect(Resident.name).toBe('Resident')
+    expect(new Resident()).toBeInstanceOf(Resident)
+  })
+
+  test('should be deep-frozen by fromJSON() and fromObject()', async () => {
+    const resident = Resident.fromJSON(JSON.stringify(payload))
+
+    expect(resident.home).toBeInstanceOf(Place)
+    expect(isDeepFrozen(resident)).toBe(true)
+    expect(isDeepFrozen(Resident.fromObject(payload))).toBe(true)
+    expect(isDeepFrozen(await Resident.fromObjectAsync(payload))).toBe(true)
+    expect(Resident.safeFromObject({ ...payload, name: '' }).success).toBe(false)
+  })
+
+  test('should be deep-frozen by clone() and the patch methods', () => {
+    const resident = new Resident()
+
+    expect(isDeepFrozen(resident.clone())).toBe(true)
+    expect(isDeepFrozen(resident.clone({ deep: false }))).toBe(true)
+    expect(isDeepFrozen(resident.withPatch({ name: 'Bob' }))).toBe(true)
+    expect(isDeepFrozen(resident.applyMergePatch({ tags: ['c'] }))).toBe(true)
+  })
+
+  test('should be frozen by fromJSON() only when the mode is set without the decorator', () => {
+    expect(Object.isFrozen(new Visitor())).toBe(false)
+    expect(Object.isFrozen(Visitor.fromJSON('{"name": "Carol"}'))).toBe(true)
+  })
+
+  test('should freeze immutable entities held by a mutable one', () => {
+    class Household extends SmartEntity<Household> {
+      protected _schemaHints: Record<string, SchemaHint> = { places: { type: 'array', items: { type: 'object', entity: Place } } }
+
+      constructor(public places: Place[] = []) {
+        super()
+      }
+    }
+    const household = Household.fromObject({ places: [{ city: 'tokyo' }] })
+
+    expect(Object.isFrozen(household)).toBe(false)
+    expect(Object.isFrozen(household.places[0])).toBe(true)
+  })
+})
+
+describe('with()', () => {
+  test('should return a validated new instance with the fields replaced', () => {
+    const resident = new Resident()
+    const moved = resident.with({ home: new Place('kyoto', '600-0001'), tags: ['b'] })
+
+    expect(moved).toBeInstanceOf(Resident)
+    expect(moved.home.city).toBe('kyoto')
+    expect(moved.tags).toEqual(['b'])
+    expect(resident.home.city).toBe('tokyo')
+    expect(() => resident.with({ name: '' })).toThrow(EntityValidationError)
+  })
+
+  test('should share the untouched nested entities', () => {
+    const resident = new Resident()
+    const renamed = resident.with({ name: 'Bob' })
+
+    expect(renamed.name).toBe('Bob')
+    expect(renamed.home).toBe(resident.home)
+    expect(renamed.previous).toBe(resident.previous)
+    expect(isDeepFrozen(renamed)).toBe(true)
+  })
+
+  test('should freeze the replaced values of immutable entities', () => {
+    const tags = ['b']
+    const resident = new Resident().with({ tags })
+
+    expect(resident.tags).toBe(tags)
+    expect(Object.isFrozen(tags)).toBe(true)
+  })
+
+  test('should leave mutable entities mutable', () => {
+    const person = Person.example()
+    const renamed = person.with({ name: 'Bob' })
+
+    expect(renamed.address).toBe(person.address)
+    expect(Object.isFrozen(renamed)).toBe(false)
+    expect(renamed.address).toBeInstanceOf(Address)
+  })
+
+  test('should accept the fields of the entity only', () => {
+    expectTypeOf(new Resident().with).parameter(0).toEqualTypeOf<
+      Partial<{ name: string; home: Place; tags: string[]; previous: Place[] }>
+    >()
+    expectTypeOf(Person.example().with({ name: 'Bob' })).toEqualTypeOf<Person>()
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, test } from '@jest/globals'
-import SmartEntity from '../src/index'
+import SmartEntity, { EntityValidationError } from '../src/index'
 
 class SubModel extends SmartEntity<SubModel> {
   protected _maskableFields = ['hobbies']
@@ -41,6 +41,48 @@ class RootModel extends SmartEntity<RootModel> {
   }
 }
 
+class NestedRootModel extends SmartEntity<NestedRootModel> {
+  protected _maskableFields = ['description']
+  protected _requiredFields = ['description']
+  protected _schemaHints = {
+    id: { type: 'number' },
+    description: { type: 'string', nullable: false },
+    isActive: { type: 'boolean' },
+    sub: { type: 'object', entity: SubModel, nullable: true },
+  }
+
+  constructor(
+    public id: number = 0,
+    public description: string | null = null,
+    public isActive: boolean = true,
+    public sub?: SubModel | null
+  ) {
+    super()
+  }
+
+  static example(): NestedRootModel {
+    return new NestedRootModel(1, 'test', true, SubModel.example())
+  }
+}
+
+class TeamModel extends SmartEntity<TeamModel> {
+  protected _maskableFields = []
+  protected _requiredFields = ['name', 'members']
+  protected _schemaHints = {
+    name: { type: 'string' },
+    leader: { type: 'object', entity: NestedRootModel, nullable: true },
+    members: { type: 'array', items: { type: 'object', entity: NestedRootModel } },
+  }
+
+  constructor(
+    public name: string = '',
+    public leader: NestedRootModel | null = null,
+    public members: NestedRootModel[] = []
+  ) {
+    super()
+  }
+}
+
 describe('RootModel Class', () => {
   test('toJSON() should return valid JSON', () => {
     const target = new RootModel(1, 'test', true, SubModel.example())
@@ -247,4 +289,362 @@ describe('RootModel Class', () => {
     expect(target.sub).not.toBe(clone.sub) // not equal reference
   })
 
-})
\ No newline at end of file
+  test('fromJSON() should rehydrate nested entities into class instances', () => {
+    const json = '{"id": 0, "description": "test" , "isActive": true, "sub": {"hobbies": ["reading"]}}'
+    const target = NestedRootModel.fromJSON(json) as NestedRootModel
+
+    expect(target.sub).toBeInstanceOf(SubModel)
+    expect(JSON.parse(target.sub!.toJSON(false, true))).toEqual({ hobbies: ['*******'] })
+  })
+
+  test('fromJSON() should rehydrate arrays of entities into class instances', () => {
+    const json = JSON.stringify({
+      name: 'team',
+      leader: { id: 1, description: 'leader', isActive: true, sub: { hobbies: ['chess'] } },
+      members: [
+        { id: 2, description: 'member1', isActive: true, sub: { hobbies: ['golf'] } },
+        { id: 3, description: 'member2', isActive: false, sub: null },
+      ],
+    })
+    const target = TeamModel.fromJSON(json) as TeamModel
+
+    expect(target).toBeInstanceOf(TeamModel)
+    expect(target.leader).toBeInstanceOf(NestedRootModel)
+    expect(target.leader?.sub).toBeInstanceOf(SubModel)
+    expect(target.members).toHaveLength(2)
+    target.members.forEach(member => expect(member).toBeInstanceOf(NestedRootModel))
+    expect(target.members[0].sub).toBeInstanceOf(SubModel)
+    expect(target.members[0].sub?.hobbies).toEqual(['golf'])
+    expect(target.members[1].sub).toBeNull()
+  })
+
+  test('fromJSON() should validate nested entities against their own schema', () => {
+    const json = JSON.stringify({
+      name: 'team',
+      members: [{ id: 2, description: 'member1', isActive: true, sub: { hobby: 'golf' } }],
+    })
+
+    expect(() => TeamModel.fromJSON(json)).toThrow(/Validation failed: /)
+  })
+
+  test('clone() should deep copy nested entities as class instances', () => {
+    const target = new TeamModel('team', NestedRootModel.example(), [NestedRootModel.example()])
+    const clone = target.clone()
+
+    expect(clone.leader).toBeInstanceOf(NestedRootModel)
+    expect(clone.leader).not.toBe(target.leader)
+    expect(clone.leader?.sub).toBeInstanceOf(SubModel)
+    expect(clone.leader?.sub).not.toBe(target.leader?.sub)
+    expect(clone.members[0]).toBeInstanceOf(NestedRootModel)
+    expect(clone.members[0]).not.toBe(target.members[0])
+    expect(JSON.parse(clone.toJSON())).toEqual(JSON.parse(target.toJSON()))
+  })
+
+  test('validate() should validate arrays of entities', () => {
+    const target = new TeamModel('team', null, [new NestedRootModel()])
+
+    expect(() => target.validate()).toThrow(/Validation failed: /)
+  })
+
+  test('getJsonSchema() should build nested schemas from entity hints', () => {
+    const schema = TeamModel.getJsonSchema()
+
+    expect(schema.properties?.leader).toMatchObject({
+      ...NestedRootModel.getJsonSchema(),
+      nullable: true,
+    })
+    expect(schema.properties?.members?.items).toMatchObject(NestedRootModel.getJsonSchema())
+  })
+
+  test('fromJSON() should throw an EntityValidationError with structured errors', () => {
+    const json = '{"id": "0", "isActive": true}'
+
+    expect(() => RootModel.fromJSON(json)).toThrow(EntityValidationError)
+    try {
+      RootModel.fromJSON(json)
+    } catch (error) {
+      expect((error as EntityValidationError).errors).toEqual(
+        expect.arrayContaining([
+          {
+            path: '/description',
+            keyword: 'required',
+            message: 'must have required property \'description\'',
+            params: { missingProperty: 'description' },
+          },
+          {
+            path: '/id',
+            keyword: 'type',
+            message: 'must be number',
+            params: { type: 'number' },
+          },
+        ])
+      )
+    }
+  })
+
+  test('safeFromJSON() should return the instance for valid JSON', () => {
+    const json = '{"id": 0, "description": "test", "sub": {"hobbies": ["reading"]}}'
+    const result = NestedRootModel.safeFromJSON<NestedRootModel>(json)
+
+    expect(result.success).toBe(true)
+    expect(result.value).toBeInstanceOf(NestedRootModel)
+    expect(result.value?.sub).toBeInstanceOf(SubModel)
+    expect(result.errors).toEqual([])
+  })
+
+  test('safeFromJSON() should return errors with nested paths instead of throwing', () => {
+    const json = '{"description": "test", "sub": {"hobbies": [1], "extra": true}}'
+    const result = NestedRootModel.safeFromJSON<NestedRootModel>(json)
+
+    expect(result.success).toBe(false)
+    expect(result.value).toBeUndefined()
+    expect(result.errors.map(err => [err.path, err.keyword])).toEqual(
+      expect.arrayContaining([
+        ['/sub/extra', 'additionalProperties'],
+        ['/sub/hobbies/0', 'type'],
+      ])
+    )
+  })
+
+  test('safeFromJSON() should return an error for invalid JSON', () => {
+    const result = RootModel.safeFromJSON<RootModel>('{invalid')
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual([
+      { path: '', keyword: 'json', message: 'must be valid JSON', params: {} },
+    ])
+  })
+
+  test('safeValidate() should report errors without throwing', () => {
+    const valid = RootModel.example().safeValidate()
+    expect(valid.success).toBe(true)
+    expect(valid.errors).toEqual([])
+
+    const invalid = new RootModel().safeValidate()
+    expect(invalid.success).toBe(false)
+    expect(invalid.errors).toEqual([
+      expect.objectContaining({ path: '/description', keyword: 'type' }),
+    ])
+  })
+
+  test('validate() should throw an EntityValidationError', () => {
+    expect(() => new RootModel().validate()).toThrow(EntityValidationError)
+  })
+
+  test('getJsonSchema() should build the schema once per class', () => {
+    let constructed = 0
+    class TestModel extends SmartEntity<TestModel> {
+      protected _maskableFields = []
+      protected _requiredFields = []
+      protected _schemaHints = {
+        name: { type: 'string' },
+      }
+
+      constructor(public name: string = '') {
+        super()
+        constructed++
+      }
+    }
+
+    const schema = TestModel.getJsonSchema()
+    expect(TestModel.getJsonSchema()).toBe(schema)
+    expect(constructed).toBe(1)
+
+    TestModel.fromJSON('{"name": "a"}')
+    new TestModel('b').validate()
+    new TestModel('c').clone()
+    expect(TestModel.getJsonSchema()).toBe(schema)
+  })
+
+  test('fromJSON() and validate() should construct each entity once', () => {
+    let parents = 0
+    let children = 0
+    class Child extends SmartEntity<Child> {
+      protected _schemaHints = { name: { type: 'string' } }
+
+      constructor(public name: string = '') {
+        super()
+        children++
+      }
+    }
+    class Parent extends SmartEntity<Parent> {
+      protected _schemaHints = { children: { type: 'array', items: { type: 'object', entity: Child } } }
+
+      constructor(public children: Child[] = []) {
+        super()
+        parents++
+      }
+    }
+    const json = '{"children": [{"name": "a"}, {"name": "b"}, {"name": "c"}]}'
+    const parent = Parent.fromJSON(json)
+
+    parents = children = 0
+    Parent.fromJSON(json)
+    expect([parents, children]).toEqual([1, 3])
+
+    parents = children = 0
+    parent.validate()
+    expect([parents, children]).toEqual([1, 3])
+  })
+
+  test('clearSchemaCache() should rebuild the schema from the current hints', () => {
+    class TestModel extends SmartEntity<TestModel> {
+      static maxLength = 3
+      protected _maskableFields = []
+      protected _requiredFields = []
+      protected _schemaHints = {
+        name: { type: 'string', maxLength: TestModel.maxLength },
+      }
+
+      constructor(public name: string = '') {
+        super()
+      }
+    }
+
+    expect(() => TestModel.fromJSON('{"name": "abcde"}')).toThrow(EntityValidationError)
+
+    TestModel.maxLength = 10
+    expect(() => TestModel.fromJSON('{"name": "abcde"}')).toThrow(EntityValidationError)
+
+    TestModel.clearSchemaCache()
+    expect(TestModel.getJsonSchema().properties?.name).toHaveProperty('maxLength', 10)
+    expect(TestModel.fromJSON('{"name": "abcde"}')).toBeInstanceOf(TestModel)
+  })
+
+  test('fromObject() should create an instance without sharing the input data', () => {
+    const data = { id: 1, description: 'test', sub: { hobbies: ['reading'] } }
+    const target = NestedRootModel.fromObject(data) as NestedRootModel
+
+    expect(target).toBeInstanceOf(NestedRootModel)
+    expect(target.sub).toBeInstanceOf(SubModel)
+    expect(target.sub?.hobbies).toEqual(['reading'])
+    expect(target.sub?.hobbies).not.toBe(data.sub.hobbies)
+  })
+
+  test('fromObject() should validate the same way as fromJSON()', () => {
+    const data = { id: '0', isActive: true }
+
+    expect(() => RootModel.fromObject(data)).toThrow(EntityValidationError)
+    expect(RootModel.safeFromObject(data).errors).toEqual(
+      RootModel.safeFromJSON(JSON.stringify(data)).errors
+    )
+  })
+
+  test('toObject() should return the same data as toJSON()', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+
+    expect(target.toObject()).toEqual(JSON.parse(target.toJSON()))
+    expect(target.toObject({ mask: true })).toEqual(JSON.parse(target.toJSON(false, true)))
+    expect(target.toObject().sub).not.toBeInstanceOf(SubModel)
+  })
+
+  test('toObject() should omit undefined fields', () => {
+    const target = new NestedRootModel(1, 'test', true)
+
+    expect(target.toObject()).toEqual({ id: 1, description: 'test', isActive: true })
+    expect(Object.keys(target.toObject())).not.toContain('sub')
+  })
+
+  test('JSON.stringify() should serialize entities nested in plain objects', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+    const json = JSON.stringify({ data: target, list: [target] })
+
+    expect(JSON.parse(json)).toEqual({
+      data: { id: 1, description: 'test', isActive: true, sub: { hobbies: ['reading', 'video game'] } },
+      list: [{ id: 1, description: 'test', isActive: true, sub: { hobbies: ['reading', 'video game'] } }],
+    })
+    expect(JSON.parse(JSON.stringify(target))).toEqual(target.toObject())
+  })
+
+  test('toJSON(key) should return a plain object', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+
+    expect(target.toJSON('')).toEqual(target.toObject())
+    expect(typeof target.toJSON()).toBe('string')
+  })
+
+  test('serialize() should return a JSON string with pretty and mask options', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+
+    expect(target.serialize()).toBe(target.toJSON())
+    expect(target.serialize({ pretty: true })).toBe(target.toJSON(true))
+    expect(target.serialize({ pretty: true, mask: true })).toBe(target.toJSON(true, true))
+    expect(JSON.parse(target.serialize({ mask: true }))).toEqual({
+      id: 1,
+      description: '****',
+      isActive: true,
+      sub: { hobbies: ['*******', '**********'] },
+    })
+  })
+
+  test('withPatch() should return a new validated instance', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+    const patched = target.withPatch({ description: 'patched', sub: new SubModel(['golf']) })
+
+    expect(patched).toBeInstanceOf(NestedRootModel)
+    expect(patched).not.toBe(target)
+    expect(patched.description).toBe('patched')
+    expect(patched.sub).toBeInstanceOf(SubModel)
+    expect(patched.sub?.hobbies).toEqual(['golf'])
+    expect(target.description).toBe('test')
+    expect(target.sub?.hobbies).toEqual(['reading', 'video game'])
+  })
+
+  test('withPatch() should leave the original untouched when validation fails', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+
+    expect(() => target.withPatch({ description: null })).toThrow(EntityValidationError)
+    expect(target.description).toBe('test')
+  })
+
+  test('applyMergePatch() should merge into nested entities', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+    const patched = target.applyMergePatch({ isActive: false, sub: { hobbies: ['golf'] } })
+
+    expect(patched.isActive).toBe(false)
+    expect(patched.sub).toBeInstanceOf(SubModel)
+    expect(patched.sub?.hobbies).toEqual(['golf'])
+    expect(target.isActive).toBe(true)
+
+    const removed = target.applyMergePatch({ sub: null })
+    expect(removed.sub).toBeUndefined()
+  })
+
+  test('applyMergePatch() should leave the original untouched when validation fails', () => {
+    const target = new NestedRootModel(1, 'test', true, SubModel.example())
+
+    expect(() => target.applyMergePatch({ sub: { extra: 1 } })).toThrow(EntityValidationError)
+    expect(target.toObject()).toEqual({
+      id: 1,
+      description: 'test',
+      isActive: true,
+      sub: { hobbies: ['reading', 'video game'] },
+    })
+  })
+
+  test('applyJsonPatch() should apply operations to nested entities and arrays', () => {
+    const target = new TeamModel('team', null, [NestedRootModel.example()])
+    const patched = target.applyJsonPatch([
+      { op: 'replace', path: '/name', value: 'renamed' },
+      { op: 'add', path: '/members/-', value: { id: 2, description: 'new' } },
+      { op: 'add', path: '/members/0/sub/hobbies/0', value: 'golf' },
+    ])
+
+    expect(patched.name).toBe('renamed')
+    expect(patched.members).toHaveLength(2)
+    expect(patched.members[1]).toBeInstanceOf(NestedRootModel)
+    expect(patched.members[0].sub?.hobbies).toEqual(['golf', 'reading', 'video game'])
+    expect(target.members).toHaveLength(1)
+    expect(target.members[0].sub?.hobbies).toEqual(['reading', 'video game'])
+  })
+
+  test('applyJsonPatch() should leave the original untouched when validation fails', () => {
+    const target = new TeamModel('team', null, [NestedRootModel.example()])
+
+    expect(() => target.applyJsonPatch([{ op: 'remove', path: '/members/0/description' }])).toThrow(
+      EntityValidationError
+    )
+    expect(() => target.applyJsonPatch([{ op: 'test', path: '/name', value: 'other' }])).toThrow(/Test failed/)
+    expect(target.members[0].description).toBe('test')
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { SchemaHint } from '../src/index'
+
+/**
+ * Validates a value of a single field described by a schema hint.
+ */
+const validateField = (hint: SchemaHint, value: unknown): string[] => {
+  class Holder extends SmartEntity<Holder> {
+    protected _schemaHints = { value: hint }
+  }
+
+  return Holder.safeFromObject({ value }).errors.map(error => error.keyword)
+}
+
+describe('schema hint keywords', () => {
+  test('enum', () => {
+    const hint: SchemaHint = { type: 'string', enum: ['draft', 'published'] }
+
+    expect(validateField(hint, 'draft')).toEqual([])
+    expect(validateField(hint, 'deleted')).toEqual(['enum'])
+  })
+
+  test('const', () => {
+    const hint: SchemaHint = { type: 'string', const: 'v1' }
+
+    expect(validateField(hint, 'v1')).toEqual([])
+    expect(validateField(hint, 'v2')).toEqual(['const'])
+  })
+
+  test('nullable enum and const', () => {
+    const status: SchemaHint = { type: 'string', nullable: true, enum: ['draft', 'published'] }
+    const version: SchemaHint = { type: 'string', nullable: true, const: 'v1' }
+
+    expect(validateField(status, null)).toEqual([])
+    expect(validateField(status, 'draft')).toEqual([])
+    expect(validateField(status, 'deleted')).toEqual(['enum'])
+    expect(validateField(version, null)).toEqual([])
+    expect(validateField(version, 'v1')).toEqual([])
+    expect(validateField(version, 'v2')).toEqual(['enum'])
+    expect(validateField({ type: 'string', enum: ['draft'] }, null)).toContain('type')
+  })
+
+  test('format', () => {
+    expect(validateField({ type: 'string', format: 'email' }, 'alice@example.com')).toEqual([])
+    expect(validateField({ type: 'string', format: 'email' }, 'alice')).toEqual(['format'])
+    expect(validateField({ type: 'string', format: 'uuid' }, '4c581c64-94fc-4880-b6e1-6130fbdc7fab')).toEqual([])
+    expect(validateField({ type: 'string', format: 'uuid' }, '42')).toEqual(['format'])
+    expect(validateField({ type: 'string', format: 'date-time' }, '2024-01-01T00:00:00Z')).toEqual([])
+    expect(validateField({ type: 'string', format: 'date-time' }, 'yesterday')).toEqual(['format'])
+  })
+
+  test('exclusiveMinimum and exclusiveMaximum', () => {
+    const hint: SchemaHint = { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 10 }
+
+    expect(validateField(hint, 5)).toEqual([])
+    expect(validateField(hint, 0)).toEqual(['exclusiveMinimum'])
+    expect(validateField(hint, 10)).toEqual(['exclusiveMaximum'])
+  })
+
+  test('multipleOf', () => {
+    const hint: SchemaHint = { type: 'number', multipleOf: 0.5 }
+
+    expect(validateField(hint, 2.5)).toEqual([])
+    expect(validateField(hint, 2.2)).toEqual(['multipleOf'])
+  })
+
+  test('minItems and maxItems', () => {
+    const hint: SchemaHint = { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 2 }
+
+    expect(validateField(hint, ['a'])).toEqual([])
+    expect(validateField(hint, [])).toEqual(['minItems'])
+    expect(validateField(hint, ['a', 'b', 'c'])).toEqual(['maxItems'])
+  })
+
+  test('uniqueItems', () => {
+    const hint: SchemaHint = { type: 'array', items: { type: 'number' }, uniqueItems: true }
+
+    expect(validateField(hint, [1, 2])).toEqual([])
+    expect(validateField(hint, [1, 1])).toEqual(['uniqueItems'])
+  })
+
+  test('oneOf', () => {
+    const hint: SchemaHint = {
+      oneOf: [
+        { type: 'string', format: 'email' },
+        { type: 'string', pattern: '^[0-9]+$' },
+      ],
+    }
+
+    expect(validateField(hint, 'alice@example.com')).toEqual([])
+    expect(validateField(hint, '0123')).toEqual([])
+    expect(validateField(hint, 'alice')).toContain('oneOf')
+  })
+
+  test('anyOf', () => {
+    const hint: SchemaHint = { anyOf: [{ type: 'string' }, { type: 'number', minimum: 0 }] }
+
+    expect(validateField(hint, 'a')).toEqual([])
+    expect(validateField(hint, 1)).toEqual([])
+    expect(validateField(hint, -1)).toContain('anyOf')
+    expect(validateField(hint, null)).toContain('anyOf')
+  })
+
+  test('nullable unions', () => {
+    const hint: SchemaHint = { anyOf: [{ type: 'string' }, { type: 'number' }], nullable: true }
+
+    expect(validateField(hint, null)).toEqual([])
+    expect(validateField(hint, true)).toContain('anyOf')
+ 
+    expect(validateField({ ...hint, enum: ['a', 1] }, null)).toEqual([])
+    expect(validateField({ ...hint, enum: ['a', 1] }, 'b')).toEqual(['enum'])
+  })
+
+  test('unions of entities and array items', () => {
+    class Card extends SmartEntity<Card> {
+      protected _requiredFields = ['card']
+      protected _schemaHints = { card: { type: 'string' } }
+    }
+    class Account extends SmartEntity<Account> {
+      protected _requiredFields = ['iban']
+      protected _schemaHints = { iban: { type: 'string' } }
+    }
+    const hint: SchemaHint = {
+      type: 'array',
+      items: { oneOf: [{ type: 'object', entity: Card }, { type: 'object', entity: Account }] },
+    }
+
+    expect(validateField(hint, [{ card: '4111' }, { iban: 'DE89' }])).toEqual([])
+    expect(validateField(hint, [{ bic: 'X' }])).toContain('oneOf')
+  })
+
+  test('should keep union values as plain data', () => {
+    class Payment extends SmartEntity<Payment> {
+      protected _schemaHints = {
+        method: { anyOf: [{ type: 'string' }, { type: 'object' }] },
+      }
+
+      constructor(public method: string | Record<string, unknown> = 'cash') {
+        super()
+      }
+    }
+
+    const data = { method: { card: '4111' } }
+    const payment = Payment.fromObject(data)
+
+    expect(payment.method).toEqual({ card: '4111' })
+    expect(payment.method).not.toBe(data.method)
+    expect(payment.toObject()).toEqual(data)
+  })
+
+  test('should describe the keywords in the JSON schema', () => {
+    class Order extends SmartEntity<Order> {
+      protected _schemaHints = {
+        status: { type: 'string', enum: ['open', 'closed'] },
+        ref: { anyOf: [{ type: 'string' }, { type: 'integer' }], nullable: true },
+      }
+    }
+    const schema = Order.getJsonSchema()
+
+    expect(schema.properties.status.enum).toEqual(['open', 'closed'])
+    expect(schema.properties.ref.anyOf).toEqual([
+      expect.objectContaining({ type: 'string' }),
+      expect.objectContaining({ type: 'integer' }),
+      { type: 'null' },
+    ])
+  })
+})
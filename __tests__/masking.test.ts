@@ -0,0 +1,261 @@
+import { describe, expect, test } from '@jest/globals'
+import { createHash } from 'crypto'
+import SmartEntity, { MaskingStrategies } from '../src/index'
+import { maskValue } from '../src/masking'
+
+class Account extends SmartEntity<Account> {
+  protected _maskableFields = ['email', 'card', 'phone', 'age', 'password', 'nickname', 'note']
+  protected _requiredFields = []
+  protected _schemaHints = {
+    email: { type: 'string' },
+    card: { type: 'string' },
+    phone: { type: 'string' },
+    age: { type: 'number', nullable: true },
+    password: { type: 'string' },
+    nickname: { type: 'string' },
+    note: { type: 'string' },
+  }
+  protected _maskingStrategies: MaskingStrategies = {
+    email: { type: 'email' },
+    card: { type: 'keepLast', count: 4 },
+    phone: { type: 'keepLast', count: 2, char: '#' },
+    age: { type: 'null' },
+    password: { type: 'redact' },
+    nickname: { type: 'custom', mask: (value: string) => value.toUpperCase() },
+  }
+  protected _maskingProfiles: Record<string, MaskingStrategies> = {
+    logs: {
+      email: { type: 'hash', salt: 'pepper' },
+      card: { type: 'redact', token: '<card>' },
+    },
+  }
+
+  constructor(
+    public email: string = 'alice@example.com',
+    public card: string = '4111111111111111',
+    public phone: string = '09012345678',
+    public age: number | null = 30,
+    public password: string = 'secret',
+    public nickname: string = 'ally',
+    public note: string = 'vip'
+  ) {
+    super()
+  }
+}
+
+describe('maskValue()', () => {
+  test('should keep the length of the value by default', () => {
+    expect(maskValue('secret', 'field')).toBe('******')
+    expect(maskValue(1234, 'field')).toBe('****')
+  })
+
+  test('should redact to a fixed token', () => {
+    expect(maskValue('secret', 'field', { type: 'redact' })).toBe('[REDACTED]')
+    expect(maskValue('secret', 'field', { type: 'redact', token: 'xxx' })).toBe('xxx')
+  })
+
+  test('should keep the last characters', () => {
+    expect(maskValue('4111111111111111', 'field', { type: 'keepLast', count: 4 })).toBe('************1111')
+    expect(maskValue('123', 'field', { type: 'keepLast', count: 4 })).toBe('***')
+  })
+
+  test('should mask the local part of email addresses', () => {
+    expect(maskValue('alice@example.com', 'field', { type: 'email' })).toBe('a****@example.com')
+    expect(maskValue('not-an-email', 'field', { type: 'email' })).toBe('************')
+  })
+
+  test('should hash deterministically with a salt', () => {
+    const hash = maskValue('alice', 'field', { type: 'hash', salt: 'pepper' })
+
+    expect(hash).toBe(createHash('sha256').update('pepperalice').digest('hex'))
+    expect(maskValue('alice', 'field', { type: 'hash', salt: 'pepper' })).toBe(hash)
+    expect(maskValue('alice', 'field', { type: 'hash', salt: 'salt' })).not.toBe(hash)
+  })
+
+  test('should replace with null or a custom value', () => {
+    expect(maskValue(30, 'field', { type: 'null' })).toBeNull()
+    expect(maskValue('a', 'field', { type: 'custom', mask: (value, field) => `${field}:${value}` })).toBe('field:a')
+  })
+})
+
+describe('Masking strategies', () => {
+  test('toObject() should mask each field with its strategy', () => {
+    expect(new Account().toObject({ mask: true })).toEqual({
+      email: 'a****@example.com',
+      card: '************1111',
+      phone: '#########78',
+      age: null,
+      password: '[REDACTED]',
+      nickname: 'ALLY',
+      note: '***',
+    })
+  })
+
+  test('toObject() should use the strategies of a masking profile', () => {
+    expect(new Account().toObject({ mask: 'logs' })).toEqual({
+      email: createHash('sha256').update('pepperalice@example.com').digest('hex'),
+      card: '<card>',
+      phone: '#########78',
+      age: null,
+      password: '[REDACTED]',
+      nickname: 'ALLY',
+      note: '***',
+    })
+  })
+
+  test('toObject() should fall back to the field strategies for unknown profiles', () => {
+    expect(new Account().toObject({ mask: 'support-ui' })).toEqual(new Account().toObject({ mask: true }))
+  })
+
+  test('toObject() should keep masked output valid against the schema', () => {
+    const target = new Account()
+
+    expect(Account.safeFromObject(target.toObject({ mask: true })).success).toBe(true)
+  })
+
+  test('serialize() and diff() should accept a masking profile', () => {
+    const target = new Account()
+    const other = target.withPatch({ card: '5555555555554444' })
+
+    expect(JSON.parse(target.serialize({ mask: 'logs' })).card).toBe('<card>')
+    expect(target.diff(other, { redact: true })).toEqual([
+      { type: 'changed', path: '/card', from: '************1111', to: '************4444' },
+    ])
+    expect(target.diff(other, { redact: 'logs' })).toEqual([
+      { type: 'changed', path: '/card', from: '<card>', to: '<card>' },
+    ])
+  })
+})
+
+class Contact extends SmartEntity<Contact> {
+  protected _maskableFields = ['email']
+  protected _requiredFields = []
+  protected _schemaHints = {
+    phone: { type: 'string' },
+    email: { type: 'string' },
+  }
+
+  constructor(
+    public phone: string = '',
+    public email: string = ''
+  ) {
+    super()
+  }
+}
+
+class Customer extends SmartEntity<Customer> {
+  protected _maskableFields: string[] = []
+  protected _requiredFields = []
+  protected _schemaHints = {
+    token: { type: 'string' },
+    metadata: { type: 'object', nullable: true },
+    tags: { type: 'array', items: { type: 'string' } },
+    contacts: { type: 'array', items: { type: 'object', entity: Contact } },
+    primary: { type: 'object', entity: Contact, nullable: true },
+  }
+
+  constructor(
+    public token: string = 'top-token',
+    public metadata: Record<string, unknown> | null = {
+      token: 'meta-token',
+      credentials: { token: 'secret', user: 'alice' },
+      services: { mail: { token: 'mail-token', host: 'smtp' } },
+    },
+    public tags: string[] = ['a', 'bb'],
+    public contacts: Contact[] = [new Contact('0312345678', 'a@example.com')],
+    public primary: Contact | null = new Contact('0901234567', 'b@example.com')
+  ) {
+    super()
+  }
+
+  static withMaskableFields(fields: string[], strategies: MaskingStrategies = {}): Customer {
+    const customer = new Customer()
+    customer._maskableFields = fields
+    customer._maskingStrategies = strategies
+    return customer
+  }
+}
+
+describe('Masking paths', () => {
+  test('a top-level field should not mask same-named keys in nested objects', () => {
+    const masked = Customer.withMaskableFields(['token']).toObject({ mask: true })
+
+    expect(masked.token).toBe('*********')
+    expect(masked.metadata.token).toBe('meta-token')
+    expect(masked.metadata.credentials.token).toBe('secret')
+  })
+
+  test('a nested path should mask only the targeted value', () => {
+    const masked = Customer.withMaskableFields(['metadata.credentials.token']).toObject({ mask: true })
+
+    expect(masked.token).toBe('top-token')
+    expect(masked.metadata).toEqual({
+      token: 'meta-token',
+      credentials: { token: '******', user: 'alice' },
+      services: { mail: { token: 'mail-token', host: 'smtp' } },
+    })
+  })
+
+  test('a plain object field should be masked entirely', () => {
+    const masked = Customer.withMaskableFields(['metadata']).toObject({ mask: true })
+
+    expect(masked.metadata).toEqual({
+      token: '**********',
+      credentials: { token: '******', user: '*****' },
+      services: { mail: { token: '**********', host: '****' } },
+    })
+  })
+
+  test('an array field should mask each item', () => {
+    expect(Customer.withMaskableFields(['tags']).toObject({ mask: true }).tags).toEqual(['*', '**'])
+    expect(Customer.withMaskableFields(['tags[1]']).toObject({ mask: true }).tags).toEqual(['a', '**'])
+  })
+
+  test('wildcards should match any key, any index or any depth', () => {
+    expect(Customer.withMaskableFields(['metadata.*.token']).toObject({ mask: true }).metadata).toEqual({
+      token: 'meta-token',
+      credentials: { token: '******', user: 'alice' },
+      services: { mail: { token: 'mail-token', host: 'smtp' } },
+    })
+
+    const deep = Customer.withMaskableFields(['**.token']).toObject({ mask: true })
+    expect(deep.token).toBe('*********')
+    expect(deep.metadata).toEqual({
+      token: '**********',
+      credentials: { token: '******', user: 'alice' },
+      services: { mail: { token: '**********', host: 'smtp' } },
+    })
+  })
+
+  test('paths should reach into arrays of entities and nested entities', () => {
+    const masked = Customer.withMaskableFields(['contacts[*].phone', 'primary.phone']).toObject({
+      mask: true,
+    })
+
+    expect(masked.contacts).toEqual([{ phone: '**********', email: '*************' }])
+    expect(masked.primary).toEqual({ phone: '**********', email: '*************' })
+  })
+
+  test('a field holding an entity should apply the rules of the entity', () => {
+    const masked = Customer.withMaskableFields(['primary', 'contacts']).toObject({ mask: true })
+
+    expect(masked.primary).toEqual({ phone: '0901234567', email: '*************' })
+    expect(masked.contacts).toEqual([{ phone: '0312345678', email: '*************' }])
+  })
+
+  test('strategies should be looked up by path', () => {
+    const masked = Customer.withMaskableFields(['contacts[*].phone', 'metadata.credentials'], {
+      'contacts[*].phone': { type: 'keepLast', count: 4 },
+      'metadata.credentials': { type: 'redact' },
+    }).toObject({ mask: true })
+
+    expect(masked.contacts[0].phone).toBe('******5678')
+    expect(masked.metadata.credentials).toEqual({ token: '[REDACTED]', user: '[REDACTED]' })
+  })
+
+  test('paths should not mask anything unless masking is requested', () => {
+    const target = Customer.withMaskableFields(['**'])
+
+    expect(target.toObject()).toEqual(new Customer().toObject())
+  })
+})
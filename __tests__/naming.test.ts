@@ -0,0 +1,131 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { NamingStrategy } from '../src/index'
+import { convertName } from '../src/naming'
+
+class Location extends SmartEntity<Location> {
+  protected _namingStrategy: NamingStrategy = 'kebab-case'
+  protected _requiredFields = ['postalCode']
+  protected _schemaHints = {
+    postalCode: { type: 'string' },
+    cityName: { type: 'string' },
+  }
+
+  constructor(public postalCode: string = '100-0001', public cityName: string = 'Tokyo') {
+    super()
+  }
+}
+
+class Member extends SmartEntity<Member> {
+  protected _namingStrategy: NamingStrategy = 'snake_case'
+  protected _maskableFields = ['apiToken']
+  protected _requiredFields = ['userId', 'isActive']
+  protected _schemaHints = {
+    userId: { type: 'string' },
+    isActive: { type: 'boolean' },
+    createAt: { type: 'date-time', alias: 'created' },
+    apiToken: { type: 'string' },
+    homeLocation: { type: 'object', entity: Location },
+  }
+
+  constructor(
+    public userId: string = 'u1',
+    public isActive: boolean = true,
+    public createAt: Date = new Date('2024-01-01T00:00:00.000Z'),
+    public apiToken: string = 'abc',
+    public homeLocation: Location = new Location()
+  ) {
+    super()
+  }
+}
+
+class Badge extends SmartEntity<Badge> {
+  protected _namingStrategy: NamingStrategy = 'PascalCase'
+  protected _schemaHints = {
+    badgeName: { type: 'string' },
+  }
+
+  constructor(public badgeName: string = 'gold') {
+    super()
+  }
+}
+
+const wire = {
+  user_id: 'u1',
+  is_active: true,
+  created: '2024-01-01T00:00:00.000Z',
+  api_token: 'abc',
+  home_location: { 'postal-code': '100-0001', 'city-name': 'Tokyo' },
+}
+
+describe('convertName()', () => {
+  test('should convert camelCase names', () => {
+    expect(convertName('postalCode', 'snake_case')).toBe('postal_code')
+    expect(convertName('postalCode', 'kebab-case')).toBe('postal-code')
+    expect(convertName('postalCode', 'PascalCase')).toBe('PostalCode')
+    expect(convertName('postalCode', 'camelCase')).toBe('postalCode')
+  })
+
+  test('should keep acronyms and digits together', () => {
+    expect(convertName('userID', 'snake_case')).toBe('user_id')
+    expect(convertName('line2Address', 'kebab-case')).toBe('line-2-address')
+    expect(convertName('htmlURL', 'PascalCase')).toBe('HtmlURL')
+  })
+})
+
+describe('naming strategies', () => {
+  test('should emit the wire names', () => {
+    expect(new Member().toObject()).toEqual(wire)
+    expect(JSON.parse(new Badge().serialize())).toEqual({ BadgeName: 'gold' })
+  })
+
+  test('should accept the wire names', () => {
+    const member = Member.fromJSON(JSON.stringify(wire))
+
+    expect(member.userId).toBe('u1')
+    expect(member.isActive).toBe(true)
+    expect(member.createAt).toEqual(new Date('2024-01-01T00:00:00.000Z'))
+    expect(member.homeLocation).toBeInstanceOf(Location)
+    expect(member.homeLocation.postalCode).toBe('100-0001')
+    expect(Badge.fromObject({ BadgeName: 'silver' }).badgeName).toBe('silver')
+  })
+
+  test('should reject the property names', () => {
+    const result = Member.safeFromObject({ ...wire, userId: 'u1' })
+
+    expect(result.success).toBe(false)
+    expect(result.errors.map(error => error.path)).toEqual(['/userId'])
+  })
+
+  test('should describe the wire names in the JSON schema', () => {
+    const schema = Member.getJsonSchema()
+
+    expect(Object.keys(schema.properties)).toEqual(['user_id', 'is_active', 'created', 'api_token', 'home_location'])
+    expect(schema.required).toEqual(['user_id', 'is_active'])
+    expect(Object.keys(schema.properties.home_location.properties)).toEqual(['postal-code', 'city-name'])
+    expect(schema.properties.home_location.required).toEqual(['postal-code'])
+  })
+
+  test('should report validation errors with wire paths', () => {
+    const result = Member.safeFromObject({ ...wire, home_location: { 'city-name': 'Tokyo' } })
+
+    expect(result.errors.map(error => error.path)).toEqual(['/home_location/postal-code'])
+  })
+
+  test('should keep property names in masking and projection paths', () => {
+    const member = new Member()
+
+    expect(member.toObject({ mask: true }).api_token).toBe('***')
+    expect(member.toObject({ include: ['userId', 'homeLocation.cityName'] })).toEqual({
+      user_id: 'u1',
+      home_location: { 'city-name': 'Tokyo' },
+    })
+  })
+
+  test('should round trip through clone(), withPatch() and applyMergePatch()', () => {
+    const member = new Member()
+
+    expect(member.clone().toObject()).toEqual(wire)
+    expect(member.withPatch({ isActive: false }).isActive).toBe(false)
+    expect(member.applyMergePatch({ api_token: 'xyz' }).apiToken).toBe('xyz')
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, test } from '@jest/globals'
+import { applyJsonPatch, applyMergePatch } from '../src/patch'
+
+describe('applyMergePatch()', () => {
+  test('should apply the RFC 7396 example', () => {
+    const target = {
+      title: 'Goodbye!',
+      author: { givenName: 'John', familyName: 'Doe' },
+      tags: ['example', 'sample'],
+      content: 'This will be unchanged',
+    }
+    const patch = {
+      title: 'Hello!',
+      phoneNumber: '+01-123-456-7890',
+      author: { familyName: null },
+      tags: ['example'],
+    }
+
+    expect(applyMergePatch(target, patch)).toEqual({
+      title: 'Hello!',
+      author: { givenName: 'John' },
+      tags: ['example'],
+      content: 'This will be unchanged',
+      phoneNumber: '+01-123-456-7890',
+    })
+    expect(target.author).toEqual({ givenName: 'John', familyName: 'Doe' })
+  })
+
+  test.each([
+    [{ a: 'b' }, { a: 'c' }, { a: 'c' }],
+    [{ a: 'b' }, { b: 'c' }, { a: 'b', b: 'c' }],
+    [{ a: 'b' }, { a: null }, {}],
+    [{ a: ['b'] }, { a: 'c' }, { a: 'c' }],
+    [{ a: 'c' }, { a: ['b'] }, { a: ['b'] }],
+    [{ a: { b: 'c' } }, { a: { b: 'd', c: null } }, { a: { b: 'd' } }],
+    [['a', 'b'], ['c', 'd'], ['c', 'd']],
+    [{ a: 'b' }, ['c'], ['c']],
+    [{ e: null }, { a: 1 }, { e: null, a: 1 }],
+    [[1, 2], { a: 'b', c: null }, { a: 'b' }],
+  ])('should merge %j with %j', (target, patch, expected) => {
+    expect(applyMergePatch(target, patch)).toEqual(expected)
+  })
+})
+
+describe('applyJsonPatch()', () => {
+  test('should add, remove and replace values', () => {
+    const target = { foo: 'bar', baz: 'qux', list: [1, 2] }
+
+    expect(
+      applyJsonPatch(target, [
+        { op: 'add', path: '/hello', value: ['world'] },
+        { op: 'remove', path: '/baz' },
+        { op: 'replace', path: '/foo', value: 'boo' },
+        { op: 'add', path: '/list/1', value: 9 },
+        { op: 'add', path: '/list/-', value: 3 },
+      ])
+    ).toEqual({ foo: 'boo', hello: ['world'], list: [1, 9, 2, 3] })
+    expect(target).toEqual({ foo: 'bar', baz: 'qux', list: [1, 2] })
+  })
+
+  test('should move and copy values', () => {
+    const target = { foo: { bar: 'baz', waldo: 'fred' }, qux: { corge: 'grault' } }
+
+    expect(
+      applyJsonPatch(target, [
+        { op: 'move', from: '/foo/waldo', path: '/qux/thud' },
+        { op: 'copy', from: '/qux', path: '/copy' },
+      ])
+    ).toEqual({
+      foo: { bar: 'baz' },
+      qux: { corge: 'grault', thud: 'fred' },
+      copy: { corge: 'grault', thud: 'fred' },
+    })
+  })
+
+  test('should unescape ~0 and ~1 in pointers', () => {
+    expect(
+      applyJsonPatch({ 'a/b': 1, 'm~n': 2 }, [
+        { op: 'replace', path: '/a~1b', value: 3 },
+        { op: 'remove', path: '/m~0n' },
+      ])
+    ).toEqual({ 'a/b': 3 })
+  })
+
+  test('should pass test operations that match', () => {
+    expect(
+      applyJsonPatch({ baz: 'qux', foo: ['a', 2, { c: 'd' }] }, [
+        { op: 'test', path: '/baz', value: 'qux' },
+        { op: 'test', path: '/foo', value: ['a', 2, { c: 'd' }] },
+      ])
+    ).toEqual({ baz: 'qux', foo: ['a', 2, { c: 'd' }] })
+  })
+
+  test('should throw when a test operation fails', () => {
+    expect(() => applyJsonPatch({ baz: 'qux' }, [{ op: 'test', path: '/baz', value: 'bar' }])).toThrow(
+      /Test failed: \/baz/
+    )
+  })
+
+  test('should throw for missing paths', () => {
+    expect(() => applyJsonPatch({ foo: 'bar' }, [{ op: 'remove', path: '/baz' }])).toThrow(/Path not found/)
+    expect(() => applyJsonPatch({ foo: 'bar' }, [{ op: 'add', path: '/a/b', value: 1 }])).toThrow(/Path not found/)
+    expect(() => applyJsonPatch({ list: [1] }, [{ op: 'add', path: '/list/5', value: 1 }])).toThrow(/Path not found/)
+    expect(() => applyJsonPatch({ foo: 'bar' }, [{ op: 'replace', path: 'foo', value: 1 }])).toThrow(/Invalid JSON Pointer/)
+  })
+
+  test.each(['/__proto__/polluted', '/constructor/prototype/polluted', '/a/__proto__', '/prototype'])(
+    'should reject the unsafe pointer %s',
+    path => {
+      expect(() => applyJsonPatch({ a: {} }, [{ op: 'add', path, value: 'yes' }])).toThrow(/Unsafe JSON Pointer/)
+      expect(() => applyJsonPatch({ a: {} }, [{ op: 'copy', from: path, path: '/b' }])).toThrow(/Unsafe JSON Pointer/)
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    }
+  )
+
+  test('should not follow inherited properties', () => {
+    expect(() => applyJsonPatch({}, [{ op: 'add', path: '/toString/polluted', value: 'yes' }])).toThrow(/Path not found/)
+    expect(() => applyJsonPatch({}, [{ op: 'copy', from: '/hasOwnProperty', path: '/a' }])).toThrow(/Path not found/)
+    expect(Object.prototype.toString).not.toHaveProperty('polluted')
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity from '../src/index'
+
+class Profile extends SmartEntity<Profile> {
+  protected _maskableFields = ['phone']
+  protected _requiredFields = ['bio']
+  protected _schemaHints = {
+    bio: { type: 'string' },
+    phone: { type: 'string' },
+    internalNote: { type: 'string' },
+  }
+  protected _groups = {
+    public: ['bio'],
+  }
+
+  constructor(
+    public bio: string = 'Hello',
+    public phone: string = '09012345678',
+    public internalNote: string = 'vip'
+  ) {
+    super()
+  }
+}
+
+class User extends SmartEntity<User> {
+  protected _maskableFields = ['email']
+  protected _requiredFields = ['id', 'name', 'email']
+  protected _schemaHints = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    profile: { type: 'object', entity: Profile },
+    friends: { type: 'array', items: { type: 'object', entity: Profile } },
+    settings: {
+      type: 'object',
+      schema: {
+        type: 'object',
+        properties: {
+          theme: { type: 'string' },
+          token: { type: 'string' },
+        },
+        required: ['theme', 'token'],
+      },
+    },
+    contacts: {
+      type: 'array',
+      items: {
+        schema: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string' },
+            value: { type: 'string' },
+          },
+        },
+      },
+    },
+  }
+  protected _groups = {
+    public: ['id', 'name', 'profile', 'friends'],
+    admin: ['id', 'email', 'settings.theme', 'contacts[*].kind'],
+  }
+
+  constructor(
+    public id: string = 'u1',
+    public name: string = 'Alice',
+    public email: string = 'alice@example.com',
+    public profile: Profile = new Profile(),
+    public friends: Profile[] = [new Profile('Hi')],
+    public settings: Record<string, string> = { theme: 'dark', token: 'abc' },
+    public contacts: Record<string, string>[] = [{ kind: 'phone', value: '123' }]
+  ) {
+    super()
+  }
+}
+
+describe('include and exclude', () => {
+  test('should include only the listed fields', () => {
+    expect(new User().toObject({ include: ['id', 'name'] })).toEqual({ id: 'u1', name: 'Alice' })
+  })
+
+  test('should include nested paths', () => {
+    const user = new User()
+
+    expect(user.toObject({ include: ['profile.bio', 'settings.theme', 'contacts[*].value'] })).toEqual({
+      profile: { bio: 'Hello' },
+      settings: { theme: 'dark' },
+      contacts: [{ value: '123' }],
+    })
+  })
+
+  test('should exclude the listed paths', () => {
+    const result = new User().toObject({ exclude: ['email', 'profile.internalNote', 'friends[*]', 'settings.token'] })
+
+    expect(result).toEqual({
+      id: 'u1',
+      name: 'Alice',
+      profile: { bio: 'Hello', phone: '09012345678' },
+      friends: [],
+      settings: { theme: 'dark' },
+      contacts: [{ kind: 'phone', value: '123' }],
+    })
+  })
+
+  test('should apply exclude paths within include paths', () => {
+    expect(new User().toObject({ include: ['profile'], exclude: ['**.phone'] })).toEqual({
+      profile: { bio: 'Hello', internalNote: 'vip' },
+    })
+  })
+
+  test('should combine projection and masking', () => {
+    const json = new User().serialize({ include: ['email', 'profile.phone'], mask: true })
+
+    expect(JSON.parse(json)).toEqual({ email: '*****************', profile: { phone: '***********' } })
+  })
+})
+
+describe('serialization groups', () => {
+  test('should include the fields of the group, applying the group of nested entities', () => {
+    expect(new User().toObject({ group: 'public' })).toEqual({
+      id: 'u1',
+      name: 'Alice',
+      profile: { bio: 'Hello' },
+      friends: [{ bio: 'Hi' }],
+    })
+  })
+
+  test('should include nested paths listed by the group', () => {
+    expect(new User().toObject({ group: 'admin' })).toEqual({
+      id: 'u1',
+      email: 'alice@example.com',
+      settings: { theme: 'dark' },
+      contacts: [{ kind: 'phone' }],
+    })
+  })
+
+  test('should keep all fields of nested entities without the group', () => {
+    expect(new User().toObject({ group: 'admin', include: ['profile'] })).toEqual({
+      profile: { bio: 'Hello', phone: '09012345678', internalNote: 'vip' },
+    })
+  })
+
+  test('should throw on an unknown group', () => {
+    expect(() => new User().toObject({ group: 'internal' })).toThrow(
+      'Unknown serialization group for User: internal'
+    )
+  })
+})
+
+describe('getJsonSchema({ group })', () => {
+  test('should describe the fields of the group', () => {
+    const schema = User.getJsonSchema({ group: 'public' })
+
+    expect(Object.keys(schema.properties)).toEqual(['id', 'name', 'profile', 'friends'])
+    expect(schema.required).toEqual(['id', 'name'])
+    expect(Object.keys(schema.properties.profile.properties)).toEqual(['bio'])
+    expect(Object.keys(schema.properties.friends.items.properties)).toEqual(['bio'])
+  })
+
+  test('should project nested paths', () => {
+    const schema = User.getJsonSchema({ group: 'admin' })
+
+    expect(schema.properties.settings.properties).toEqual({ theme: { type: 'string' } })
+    expect(schema.properties.settings.required).toEqual(['theme'])
+    expect(schema.properties.contacts.items.properties).toEqual({ kind: { type: 'string' } })
+  })
+
+  test('should cache the schema of each group', () => {
+    expect(User.getJsonSchema({ group: 'public' })).toBe(User.getJsonSchema({ group: 'public' }))
+    expect(User.getJsonSchema({ group: 'public' })).not.toBe(User.getJsonSchema())
+    expect(Object.keys(User.getJsonSchema().properties)).toHaveLength(7)
+  })
+
+  test('should throw on an unknown group', () => {
+    expect(() => User.getJsonSchema({ group: 'internal' })).toThrow('Unknown serialization group for User: internal')
+  })
+})
@@ -0,0 +1,219 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { CircularReferenceError, SchemaHint } from '../src/index'
+
+class Owner extends SmartEntity<Owner> {
+  protected _requiredFields = ['name']
+  protected _schemaHints: Record<string, SchemaHint> = {
+    name: { type: 'string', minLength: 1 },
+    home: { type: 'object', entity: Home, nullable: true },
+    friends: { type: 'array', items: { type: 'object', entity: Owner } },
+  }
+
+  constructor(public name: string = '', public home: Home | null = null, public friends: Owner[] = []) {
+    super()
+  }
+}
+
+class Home extends SmartEntity<Home> {
+  protected _schemaHints: Record<string, SchemaHint> = {
+    city: { type: 'string' },
+    owner: { type: 'object', entity: Owner, nullable: true },
+  }
+
+  constructor(public city: string = '', public owner: Owner | null = null) {
+    super()
+  }
+}
+
+class SharedOwner extends Owner {
+  protected _preserveReferences = true
+}
+
+const createCycle = (): Owner => {
+  const owner = new Owner('Alice')
+  owner.home = new Home('tokyo', owner)
+  return owner
+}
+
+describe('circular references', () => {
+  test('should throw an error naming the field that closes the cycle', () => {
+    const owner = createCycle()
+
+    expect(() => owner.toObject()).toThrow(CircularReferenceError)
+    expect(() => owner.serialize()).toThrow('Circular reference at /home/owner')
+  })
+
+  test('should detect cycles through arrays and plain objects', () => {
+    const owner = new Owner('Alice')
+    owner.friends = [new Owner('Bob', null, [owner])]
+    const data: Record<string, unknown> = {}
+    data.self = data
+    const entity = Object.assign(new Home('tokyo'), { extra: data })
+
+    expect(() => owner.toObject()).toThrow('Circular reference at /friends/0/friends/0')
+    expect(() => entity.toObject()).toThrow('Circular reference at /extra/self')
+  })
+
+  test('should report the cycle as a validation problem', async () => {
+    const owner = createCycle()
+    const circular = { path: '/home/owner', keyword: 'circular', message: 'must not enclose itself', params: {} }
+
+    expect(owner.safeValidate()).toEqual({ success: false, value: undefined, errors: [circular] })
+    expect(await owner.safeValidateAsync()).toEqual({ success: false, value: undefined, errors: [circular] })
+    expect(() => owner.validate()).toThrow('Validation failed: /home/owner must not enclose itself')
+  })
+
+  test('should still write an entity held twice without a cycle', () => {
+    const bob = new Owner('Bob')
+    const owner = new Owner('Alice', null, [bob, bob])
+
+    expect(owner.toObject().friends).toEqual([
+      { name: 'Bob', home: null, friends: [] },
+      { name: 'Bob', home: null, friends: [] },
+    ])
+  })
+})
+
+describe('preserved references', () => {
+  test('should write $id and $ref markers', () => {
+    const owner = createCycle()
+    const bob = new Owner('Bob')
+    owner.friends = [bob, bob]
+
+    expect(owner.toObject({ preserveReferences: true })).toEqual({
+      $id: '1',
+      name: 'Alice',
+      home: { $id: '2', city: 'tokyo', owner: { $ref: '1' } },
+      friends: [{ $id: '3', name: 'Bob', home: null, friends: [] }, { $ref: '3' }],
+    })
+  })
+
+  test('should restore cycles and shared entities', () => {
+    const json = createCycle().serialize({ preserveReferences: true })
+    const owner = Owner.fromJSON(json, { preserveReferences: true })
+
+    expect(owner.home?.owner).toBe(owner)
+
+    const shared = Owner.fromObject(
+      {
+        $id: '1',
+        name: 'Alice',
+        friends: [{ $id: '2', name: 'Bob', friends: [{ $ref: '1' }] }, { $ref: '2' }],
+      },
+      { preserveReferences: true }
+    )
+    expect(shared.friends[0]).toBe(shared.friends[1])
+    expect(shared.friends[0].friends[0]).toBe(shared)
+  })
+
+  test('should follow the entity class by default', () => {
+    const owner = new SharedOwner('Alice')
+    owner.home = new Home('tokyo', owner)
+
+    const clone = owner.clone()
+    expect(clone).not.toBe(owner)
+    expect(clone.home?.owner).toBe(clone)
+    expect(SharedOwner.fromJSON(owner.serialize()).home?.owner).toBeInstanceOf(SharedOwner)
+  })
+
+  test('should accept markers through nullable entity fields', () => {
+    const owner = new SharedOwner('Alice')
+    const tenant = new SharedOwner('Bob')
+    owner.home = new Home('tokyo', tenant)
+    tenant.friends = [owner]
+
+    const result = SharedOwner.safeFromJSON(owner.serialize())
+    expect(result.errors).toEqual([])
+    expect(result.value?.home?.owner?.friends[0]).toBe(result.value)
+    const clone = owner.clone({ validate: true })
+    expect(clone.home?.owner?.friends[0]).toBe(clone)
+    expect(owner.with({ name: 'Carol' }).home?.owner).toBe(tenant)
+  })
+
+  test('should still report the problems of the entities in place of markers', () => {
+    const result = SharedOwner.safeFromObject({ name: 'Alice', home: { city: 1 }, friends: [{ $ref: 1 }] })
+
+    const problems = result.errors.map(error => [error.path, error.keyword])
+
+    expect(problems).toContainEqual(['/home/city', 'type'])
+    expect(problems).toContainEqual(['/friends/0/$ref', 'type'])
+    expect(problems.map(([, keyword]) => keyword)).not.toContain('if')
+  })
+
+  test('should validate the entities where they are written', () => {
+    const result = Owner.safeFromObject(
+      { $id: '1', name: '', home: { city: 'tokyo', owner: { $ref: '1' } } },
+      { preserveReferences: true }
+    )
+
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([['/name', 'minLength']])
+  })
+
+  test('should reject markers referring to no entity or to another class', () => {
+    const unknown = Owner.safeFromObject({ name: 'Alice', friends: [{ $ref: '9' }] }, { preserveReferences: true })
+    const mismatch = Owner.safeFromObject(
+      { name: 'Alice', home: { $id: '2', city: 'tokyo' }, friends: [{ $ref: '2' }] },
+      { preserveReferences: true }
+    )
+    const duplicate = Owner.safeFromObject(
+      { $id: '1', name: 'Alice', friends: [{ $id: '1', name: 'Bob' }] },
+      { preserveReferences: true }
+    )
+
+    expect(unknown.errors.map(error => [error.path, error.message])).toEqual([
+      ['/friends/0', 'must refer to an entity with $id 9'],
+    ])
+    expect(mismatch.errors.map(error => [error.path, error.message])).toEqual([['/friends/0', 'must refer to an instance of Owner']])
+    expect(duplicate.errors.map(error => [error.path, error.keyword])).toEqual([['/friends/0/$id', 'reference']])
+  })
+
+  test('should reject markers when references are not preserved', () => {
+    expect(Owner.safeFromObject({ $id: '1', name: 'Alice' }).success).toBe(false)
+  })
+})
+
+describe('recursive schemas', () => {
+  class Registry extends SmartEntity<Registry> {
+    protected _schemaHints = { owners: { type: 'array', items: { type: 'object', entity: Owner } } }
+
+    constructor(public owners: Owner[] = []) {
+      super()
+    }
+  }
+
+  test('should describe recursive entities with $ref', () => {
+    const schema = Owner.getJsonSchema()
+
+    expect(schema.$id).toBe('smart-entity:Owner')
+    expect(schema.properties.friends.items).toEqual({ $ref: 'smart-entity:Owner' })
+    expect(schema.properties.home).toEqual({ anyOf: [{ type: 'null' }, { $ref: 'smart-entity:Home' }] })
+    expect(Object.keys(schema.definitions ?? {})).toEqual(['Home'])
+    expect(schema.definitions?.Home.$id).toBe('smart-entity:Home')
+  })
+
+  test('should give the recursive entities as definitions', () => {
+    const schema = Registry.getJsonSchema()
+
+    expect(schema.$id).toBeUndefined()
+    expect(schema.properties.owners.items).toEqual({ $ref: 'smart-entity:Owner' })
+    expect(Object.keys(schema.definitions ?? {})).toEqual(['Owner', 'Home'])
+    expect(schema.definitions?.Owner.definitions).toBeUndefined()
+  })
+
+  test('should validate nested levels of recursive entities', () => {
+    const result = Registry.safeFromObject({
+      owners: [
+        {
+          name: 'Alice',
+          friends: [{ name: 'Bob', friends: [{ name: '' }] }],
+          home: { city: 'tokyo', owner: { name: 'Carol', home: { city: 1 } } },
+        },
+      ],
+    })
+    const paths = result.errors.map(error => error.path)
+
+    expect(paths).toContain('/owners/0/friends/0/friends/0/name')
+    expect(paths).toContain('/owners/0/home/owner/home/city')
+    expect(Registry.safeFromObject({ owners: [{ name: 'Alice', home: { owner: { name: 'Bob' } } }] }).success).toBe(true)
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { SchemaHint } from '../src/index'
+
+const paymentHints = {
+  method: { type: 'string' },
+  amount: { type: 'number', exclusiveMinimum: 0 },
+}
+
+abstract class Payment extends SmartEntity<Payment> {
+  protected _discriminator = 'method'
+  protected _requiredFields = ['amount']
+  protected _schemaHints: Record<string, SchemaHint> = paymentHints
+
+  method?: string
+  amount: number = 0
+}
+
+class CardPayment extends Payment {
+  protected _requiredFields = ['amount', 'last4']
+  protected _schemaHints = { ...paymentHints, last4: { type: 'string', pattern: '^[0-9]{4}$' } }
+
+  constructor(public last4: string = '1111') {
+    super()
+  }
+}
+
+class BankPayment extends Payment {
+  protected _schemaHints = { ...paymentHints, iban: { type: 'string' } }
+
+  constructor(public iban: string = 'DE89') {
+    super()
+  }
+}
+
+class WalletPayment extends Payment {
+  protected _schemaHints = { ...paymentHints, wallet: { type: 'string', enum: ['apple', 'google'] } }
+
+  constructor(public wallet: string = 'apple') {
+    super()
+  }
+}
+
+Payment.registerSubtype('card', CardPayment)
+Payment.registerSubtype('bank', BankPayment)
+Payment.registerSubtype('wallet', WalletPayment)
+
+class Order extends SmartEntity<Order> {
+  protected _schemaHints = {
+    payment: { type: 'object', entity: Payment, nullable: true },
+    history: { type: 'array', items: { type: 'object', entity: Payment } },
+  }
+
+  constructor(public payment: Payment | null = null, public history: Payment[] = []) {
+    super()
+  }
+}
+
+describe('discriminated subtypes', () => {
+  test('should create an instance of the subtype the tag names', () => {
+    const card = Payment.fromJSON('{"method":"card","amount":10,"last4":"4242"}')
+    const bank = Payment.fromObject({ method: 'bank', amount: 5, iban: 'FR76' })
+
+    expect(card).toBeInstanceOf(CardPayment)
+    expect((card as CardPayment).last4).toBe('4242')
+    expect(bank).toBeInstanceOf(BankPayment)
+    expect((bank as BankPayment).iban).toBe('FR76')
+  })
+
+  test('should validate against the schema of the subtype', () => {
+    const result = Payment.safeFromObject({ method: 'card', amount: 10, last4: 'abcd' })
+
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([['/last4', 'pattern']])
+    expect(Payment.safeFromObject({ method: 'wallet', amount: 1, iban: 'x' }).success).toBe(false)
+  })
+
+  test('should reject unknown and missing tags', () => {
+    const unknown = Payment.safeFromObject({ method: 'cash', amount: 1 }).errors
+    const missing = Payment.safeFromObject({ amount: 1 }).errors
+
+    expect(unknown.map(error => [error.path, error.keyword])).toEqual([['/method', 'discriminator']])
+    expect(missing.map(error => error.path)).toContain('/method')
+    expect(missing.every(error => error.path === '/method')).toBe(true)
+  })
+
+  test('should emit a oneOf with a discriminator in the JSON schema', () => {
+    const schema = Payment.getJsonSchema()
+
+    expect(schema.discriminator).toEqual({ propertyName: 'method' })
+    expect(schema.required).toEqual(['method'])
+    expect(schema.oneOf).toHaveLength(3)
+    expect(schema.oneOf[0].properties.method).toEqual({ type: 'string', nullable: false, const: 'card' })
+    expect(schema.oneOf[0].required).toEqual(['amount', 'last4', 'method'])
+    expect(schema.oneOf[1]).toBe(BankPayment.getJsonSchema())
+  })
+
+  test('should write the tag of the subtype', () => {
+    const card = new CardPayment('4242')
+    card.amount = 10
+
+    expect(card.toObject()).toEqual({ method: 'card', amount: 10, last4: '4242' })
+    expect(card.clone()).toBeInstanceOf(CardPayment)
+    expect(Payment.fromJSON(card.serialize()).toObject()).toEqual(card.toObject())
+  })
+
+  test('should resolve subtypes of nested fields and array items', () => {
+    const order = Order.fromObject({
+      payment: { method: 'wallet', amount: 3, wallet: 'google' },
+      history: [
+        { method: 'card', amount: 1, last4: '0000' },
+        { method: 'bank', amount: 2, iban: 'NL91' },
+      ],
+    })
+
+    expect(order.payment).toBeInstanceOf(WalletPayment)
+    expect(order.history.map(payment => payment.constructor)).toEqual([CardPayment, BankPayment])
+    expect(Order.fromObject({ payment: null }).payment).toBeNull()
+  })
+
+  test('should report errors of nested subtypes with their path', () => {
+    const result = Order.safeFromObject({ history: [{ method: 'card', amount: 1, last4: 'x' }] })
+
+    expect(result.errors.map(error => error.path)).toEqual(['/history/0/last4'])
+  })
+
+  test('should refuse invalid registrations', () => {
+    class Plain extends SmartEntity<Plain> {}
+
+    expect(() => Plain.registerSubtype('x', Plain)).toThrow('Plain declares no discriminator')
+    expect(() => Payment.registerSubtype('x', Plain)).toThrow('Plain does not extend Payment')
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { immutable, SchemaHint } from '../src/index'
+import { Address, Person } from '../src/example/index'
+
+@immutable
+class Tag extends SmartEntity<Tag> {
+  protected _schemaHints: Record<string, SchemaHint> = { label: { type: 'string' } }
+
+  constructor(public label: string = '') {
+    super()
+  }
+}
+
+class Log extends SmartEntity<Log> {
+  protected _trackChanges = false
+  protected _schemaHints: Record<string, SchemaHint> = { message: { type: 'string' } }
+
+  constructor(public message: string = '') {
+    super()
+  }
+}
+
+const load = (): Person => Person.fromJSON(Person.example().serialize())
+
+describe('change tracking', () => {
+  test('should start clean when loaded', async () => {
+    const json = Person.example().serialize()
+
+    expect(Person.fromJSON(json).isDirty()).toBe(false)
+    expect(Person.fromJSON(json).getChanges()).toEqual({})
+    expect((await Person.fromJSONAsync(json)).isDirty()).toBe(false)
+  })
+
+  test('should report the changed fields with their previous values', () => {
+    const person = load()
+    const name = person.name
+    person.name = 'Bob'
+    person.hobbies.push('golf')
+
+    expect(person.isDirty()).toBe(true)
+    expect(person.getChanges()).toEqual({
+      '/name': { from: name, to: 'Bob' },
+      '/hobbies/2': { from: undefined, to: 'golf' },
+    })
+  })
+
+  test('should report the changes of nested entities with their paths', () => {
+    const person = load()
+    const address = person.address?.address
+    if (person.address) person.address.address = 'osaka'
+
+    expect(person.getChanges()).toEqual({ '/address/address': { from: address, to: 'osaka' } })
+  })
+
+  test('should track the nested entities loaded along with the entity', () => {
+    const person = load()
+    const postalCode = person.address?.postalCode
+    if (person.address) person.address.postalCode = 'x'
+
+    expect(person.address?.isDirty()).toBe(true)
+    expect(person.address?.getChanges()).toEqual({ '/postalCode': { from: postalCode, to: 'x' } })
+    expect(person.clone().address?.isDirty()).toBe(true)
+    expect(person.withPatch({ name: 'Bob' }).address?.isDirty()).toBe(true)
+
+    person.markClean()
+    expect(person.address?.isDirty()).toBe(false)
+  })
+
+  test('should keep the own changes of the entities given to with()', () => {
+    const person = load()
+    const address = Address.fromJSON(Address.example().serialize())
+    address.address = 'kyoto'
+
+    expect(person.with({ address }).address?.getChanges()).toEqual({ '/address': { from: 'tokyo', to: 'kyoto' } })
+  })
+
+  test('should not be dirty once the change is reverted', () => {
+    const person = load()
+    const name = person.name
+    person.name = 'Bob'
+    person.name = name
+
+    expect(person.isDirty()).toBe(false)
+  })
+
+  test('should forget the changes when marked clean', () => {
+    const person = load()
+    person.name = 'Bob'
+    person.markClean()
+
+    expect(person.isDirty()).toBe(false)
+    person.age = (person.age ?? 0) + 1
+    expect(Object.keys(person.getChanges())).toEqual(['/age'])
+  })
+
+  test('should not track constructed entities until they are marked clean', () => {
+    const address = Address.example()
+    address.address = 'osaka'
+    expect(address.isDirty()).toBe(false)
+
+    address.markClean()
+    address.address = 'kyoto'
+    expect(address.getChanges()).toEqual({ '/address': { from: 'osaka', to: 'kyoto' } })
+  })
+
+  test('should keep the changes in copies', () => {
+    const person = load()
+    const name = person.name
+
+    expect(person.with({ name: 'Bob' }).getChanges()).toEqual({ '/name': { from: name, to: 'Bob' } })
+    expect(person.withPatch({ name: 'Bob' }).isDirty()).toBe(true)
+    expect(person.clone().isDirty()).toBe(false)
+  })
+
+  test('should be turned off per call or per class', () => {
+    const person = Person.fromJSON(Person.example().serialize(), { trackChanges: false })
+    person.name = 'Bob'
+    const log = Log.fromJSON('{"message": "hello"}')
+    log.message = 'bye'
+
+    expect(person.isDirty()).toBe(false)
+    expect(log.isDirty()).toBe(false)
+    expect(Log.fromJSON('{"message": "hello"}', { trackChanges: true }).getChanges()).toEqual({})
+  })
+
+  test('should track frozen entities', () => {
+    const tag = Tag.fromJSON('{"label": "a"}')
+
+    expect(Object.isFrozen(tag)).toBe(true)
+    expect(tag.with({ label: 'b' }).getChanges()).toEqual({ '/label': { from: 'a', to: 'b' } })
+  })
+
+  test('should keep the tracking state out of the JSON', () => {
+    const json = Person.example().serialize()
+    const person = Person.fromJSON(json)
+    person.name = 'Bob'
+
+    expect(Object.keys(person)).toEqual(Object.keys(new Person()))
+    expect(JSON.parse(person.toJSON())).toEqual({ ...JSON.parse(json), name: 'Bob' })
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, test } from '@jest/globals'
+import { expectTypeOf } from 'expect-type'
+import SmartEntity, { FieldNames, SchemaHints, ValidationResult } from '../src/index'
+import { Address, Person } from '../src/example/index'
+
+class Profile extends SmartEntity<Profile> {
+  protected _maskableFields: FieldNames<Profile>[] = ['email']
+  protected _requiredFields: FieldNames<Profile>[] = ['email']
+  protected _schemaHints: SchemaHints<Profile> = {
+    email: { type: 'string', pattern: '^.+@.+$' },
+    score: { type: 'integer', nullable: true },
+    birthday: { type: 'date' },
+    tags: { type: 'array', items: { type: 'string' } },
+    home: { type: 'object', entity: Address, nullable: true },
+    addresses: { type: 'array', items: { type: 'object', entity: Address } },
+  }
+
+  constructor(
+    public email: string = '',
+    public score: number | null = null,
+    public birthday: Date = new Date(0),
+    public tags: string[] = [],
+    public home: Address | null = null,
+    public addresses: Address[] = []
+  ) {
+    super()
+  }
+}
+
+describe('Type inference', () => {
+  test('fromJSON() and clone() should return the concrete subclass type', () => {
+    const json = '{"name": "Alice"}'
+
+    expectTypeOf(Person.fromJSON(json)).toEqualTypeOf<Person>()
+    expectTypeOf(Person.fromObject({ name: 'Alice' })).toEqualTypeOf<Person>()
+    expectTypeOf(Person.safeFromJSON(json)).toEqualTypeOf<ValidationResult<Person>>()
+    expectTypeOf(Person.safeFromObject({})).toEqualTypeOf<ValidationResult<Person>>()
+    expectTypeOf(Person.example().clone()).toEqualTypeOf<Person>()
+    expectTypeOf(Address.example().clone()).toEqualTypeOf<Address>()
+
+    expect(Person.fromJSON(json).name).toBe('Alice')
+  })
+
+  test('FieldNames should list the data fields only', () => {
+    expectTypeOf<FieldNames<Address>>().toEqualTypeOf<'postalCode' | 'address'>()
+    expectTypeOf<FieldNames<Person>>().toEqualTypeOf<
+      'id' | 'name' | 'age' | 'isActive' | 'createAt' | 'hobbies' | 'address'
+    >()
+  })
+
+  test('SchemaHints should require a hint for each field', () => {
+    // @ts-expect-error the hint for `address` is missing
+    const hints: SchemaHints<Address> = { postalCode: { type: 'string' } }
+
+    expect(hints).toBeDefined()
+  })
+
+  test('SchemaHints should reject unknown fields', () => {
+    const hints: SchemaHints<Address> = {
+      postalCode: { type: 'string' },
+      address: { type: 'string' },
+      // @ts-expect-error `zipCode` is not a field of Address
+      zipCode: { type: 'string' },
+    }
+
+    expect(hints).toBeDefined()
+  })
+
+  test('SchemaHints should reject types that do not match the field', () => {
+    const hints: SchemaHints<Profile> = {
+      // @ts-expect-error `email` is a string
+      email: { type: 'number' },
+      score: { type: 'number' },
+      // @ts-expect-error `birthday` is a Date
+      birthday: { type: 'string' },
+      // @ts-expect-error items of `tags` are strings
+      tags: { type: 'array', items: { type: 'boolean' } },
+      // @ts-expect-error `home` holds an Address, not a Person
+      home: { type: 'object', entity: Person },
+      addresses: { type: 'array', items: { type: 'object', entity: Address } },
+    }
+
+    expect(hints).toBeDefined()
+  })
+
+  test('FieldNames should reject unknown fields', () => {
+    // @ts-expect-error `zipCode` is not a field of Address
+    const fields: FieldNames<Address>[] = ['postalCode', 'zipCode']
+
+    expect(fields).toBeDefined()
+  })
+
+  test('typed entities should behave like untyped ones at runtime', () => {
+    const target = Profile.fromObject({
+      email: 'alice@example.com',
+      birthday: '2000-01-01',
+      home: { postalCode: '123-4567', address: 'tokyo' },
+    })
+
+    expect(target.birthday).toBeInstanceOf(Date)
+    expect(target.home).toBeInstanceOf(Address)
+    expect(target.toObject({ mask: true }).email).toBe('*****************')
+  })
+})
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, jest, test } from '@jest/globals'
+import SmartEntity, { UnknownPropertyPolicy, ValidationIssue } from '../src/index'
+
+class Tag extends SmartEntity<Tag> {
+  protected _schemaHints = {
+    label: { type: 'string' },
+  }
+
+  constructor(public label: string = 'new') {
+    super()
+  }
+}
+
+class Post extends SmartEntity<Post> {
+  protected _maskableFields = ['secret']
+  protected _schemaHints = {
+    title: { type: 'string' },
+    secret: { type: 'string' },
+    tags: { type: 'array', items: { type: 'object', entity: Tag } },
+  }
+
+  constructor(public title: string = 'Hello', public secret: string = 'abc', public tags: Tag[] = []) {
+    super()
+  }
+}
+
+class LenientPost extends Post {
+  protected _unknownProperties: UnknownPropertyPolicy = 'keep'
+}
+
+class WarningPost extends Post {
+  protected _unknownProperties: UnknownPropertyPolicy = 'warn'
+}
+
+const payload = { title: 'Hi', secret: 'xyz', draft: true, tags: [{ label: 'a', color: 'red' }] }
+
+describe('unknown property policies', () => {
+  afterEach(() => {
+    WarningPost.onUnknownProperty = SmartEntity.onUnknownProperty
+  })
+
+  test('should reject unknown properties by default', () => {
+    const result = Post.safeFromObject(payload)
+
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([
+      ['/draft', 'additionalProperties'],
+      ['/tags/0/color', 'additionalProperties'],
+    ])
+  })
+
+  test('should strip unknown properties', () => {
+    const post = Post.fromObject(payload, { unknownProperties: 'strip' })
+
+    expect(post.toObject()).toEqual({ title: 'Hi', secret: 'xyz', tags: [{ label: 'a' }] })
+    expect(payload).toEqual({ title: 'Hi', secret: 'xyz', draft: true, tags: [{ label: 'a', color: 'red' }] })
+  })
+
+  test('should still report invalid known properties', () => {
+    const result = Post.safeFromObject({ ...payload, title: 1 }, { unknownProperties: 'strip' })
+
+    expect(result.errors.map(error => error.path)).toEqual(['/title'])
+  })
+
+  test('should keep unknown properties and write them back', () => {
+    const post = Post.fromJSON(JSON.stringify(payload), { unknownProperties: 'keep' })
+
+    expect(post.toObject()).toEqual(payload)
+    expect(JSON.parse(post.serialize())).toEqual(payload)
+    expect(post.toObject({ include: ['title'] })).toEqual({ title: 'Hi' })
+  })
+
+  test('should carry kept properties over clones and patches', () => {
+    const post = Post.fromObject(payload, { unknownProperties: 'keep' })
+
+    expect(() => post.validate()).not.toThrow()
+    expect(post.clone()).toEqual(post)
+    expect(post.withPatch({ title: 'Bye' }).toObject()).toEqual({ ...payload, title: 'Bye' })
+    expect(post.applyMergePatch({ secret: 'new' }).toObject()).toEqual({ ...payload, secret: 'new' })
+    expect(() => post.applyMergePatch({ extra: 1 })).toThrow(/additional properties/)
+  })
+
+  test('should apply the policy of the class', () => {
+    expect(LenientPost.fromObject({ title: 'Hi', extra: 1 }).toObject()).toEqual({ title: 'Hi', secret: 'abc', tags: [], extra: 1 })
+    expect(LenientPost.safeFromObject({ extra: 1 }, { unknownProperties: 'reject' }).success).toBe(false)
+    expect(LenientPost.safeFromObject({ tags: [{ color: 'red' }] }).success).toBe(false)
+  })
+
+  test('should report unknown properties to the hook', () => {
+    const hook = jest.fn<(issue: ValidationIssue) => void>()
+    WarningPost.onUnknownProperty = hook
+
+    const post = WarningPost.fromObject({ title: 'Hi', draft: true })
+
+    expect(post.toObject()).toEqual({ title: 'Hi', secret: 'abc', tags: [] })
+    expect(hook).toHaveBeenCalledWith({
+      path: '/draft',
+      keyword: 'additionalProperties',
+      message: 'must NOT have additional properties',
+      params: { additionalProperty: 'draft' },
+    })
+  })
+
+  test('should prefer the hook given per call', () => {
+    const hook = jest.fn<(issue: ValidationIssue) => void>()
+
+    Post.fromObject(payload, { unknownProperties: 'warn', onUnknownProperty: hook })
+
+    expect(hook.mock.calls.map(([issue]) => issue.path)).toEqual(['/tags/0/color', '/draft'])
+  })
+
+  test('should warn on the console by default', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    WarningPost.fromObject({ draft: true })
+
+    expect(warn).toHaveBeenCalledWith('Unknown property ignored: /draft')
+    warn.mockRestore()
+  })
+})
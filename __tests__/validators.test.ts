@@ -0,0 +1,129 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { AsyncEntityValidator, EntityValidationError, EntityValidator, NamingStrategy } from '../src/index'
+
+class Period extends SmartEntity<Period> {
+  protected _namingStrategy: NamingStrategy = 'snake_case'
+  protected _requiredFields = ['startDate', 'endDate']
+  protected _schemaHints = {
+    startDate: { type: 'date' },
+    endDate: { type: 'date' },
+  }
+  protected _validators: EntityValidator<Period>[] = [
+    period => {
+      if (period.endDate <= period.startDate) {
+        return [{ path: '/end_date', message: 'must be after start_date' }]
+      }
+    },
+  ]
+
+  constructor(public startDate: Date = new Date('2024-01-01'), public endDate: Date = new Date('2024-01-31')) {
+    super()
+  }
+}
+
+const takenCodes = new Set(['SUMMER'])
+
+class Campaign extends SmartEntity<Campaign> {
+  protected _requiredFields = ['code']
+  protected _schemaHints = {
+    code: { type: 'string', minLength: 1 },
+    country: { type: 'string' },
+    postalCode: { type: 'string' },
+    periods: { type: 'array', items: { type: 'object', entity: Period } },
+  }
+  protected _validators: EntityValidator<Campaign>[] = [
+    campaign => {
+      if (campaign.country === 'JP' && !/^[0-9]{3}-[0-9]{4}$/.test(campaign.postalCode)) {
+        return [{ path: '/postalCode', message: 'must match the format of JP', keyword: 'postalCode', params: { country: 'JP' } }]
+      }
+    },
+  ]
+  protected _asyncValidators: AsyncEntityValidator<Campaign>[] = [
+    async campaign => {
+      await new Promise(resolve => setTimeout(resolve, 1))
+      if (takenCodes.has(campaign.code)) return [{ path: '/code', message: 'must be unique', keyword: 'unique' }]
+    },
+  ]
+
+  constructor(
+    public code: string = 'WINTER',
+    public country: string = 'JP',
+    public postalCode: string = '100-0001',
+    public periods: Period[] = [new Period()]
+  ) {
+    super()
+  }
+}
+
+const valid = {
+  code: 'WINTER',
+  country: 'JP',
+  postalCode: '100-0001',
+  periods: [{ start_date: '2024-01-01', end_date: '2024-01-31' }],
+}
+
+describe('custom validators', () => {
+  test('should accept data passing the validators', () => {
+    expect(Campaign.fromObject(valid)).toBeInstanceOf(Campaign)
+    expect(() => new Campaign().validate()).not.toThrow()
+  })
+
+  test('should report problems with structured errors and paths', () => {
+    const result = Campaign.safeFromJSON(JSON.stringify({
+      ...valid,
+      postalCode: '1000001',
+      periods: [valid.periods[0], { start_date: '2024-02-01', end_date: '2024-01-01' }],
+    }))
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual([
+      { path: '/postalCode', keyword: 'postalCode', message: 'must match the format of JP', params: { country: 'JP' } },
+      { path: '/periods/1/end_date', keyword: 'custom', message: 'must be after start_date', params: {} },
+    ])
+  })
+
+  test('should throw from fromJSON() and validate()', () => {
+    const json = JSON.stringify({ ...valid, country: 'JP', postalCode: 'x' })
+
+    expect(() => Campaign.fromJSON(json)).toThrow(EntityValidationError)
+    expect(() => Campaign.fromJSON(json)).toThrow('Validation failed: /postalCode must match the format of JP')
+    expect(() => new Period(new Date('2024-02-01'), new Date('2024-01-01')).validate()).toThrow(
+      'Validation failed: /end_date must be after start_date'
+    )
+  })
+
+  test('should run after schema validation only', () => {
+    const result = Campaign.safeFromObject({ ...valid, code: '', postalCode: 'x' })
+
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([['/code', 'minLength']])
+  })
+
+  test('should not run asynchronous validators in synchronous methods', () => {
+    expect(() => Campaign.fromObject({ ...valid, code: 'SUMMER' })).not.toThrow()
+  })
+})
+
+describe('asynchronous validators', () => {
+  test('should run in fromObjectAsync() and fromJSONAsync()', async () => {
+    await expect(Campaign.fromObjectAsync(valid)).resolves.toBeInstanceOf(Campaign)
+    await expect(Campaign.fromJSONAsync(JSON.stringify({ ...valid, code: 'SUMMER' }))).rejects.toThrow(
+      'Validation failed: /code must be unique'
+    )
+    await expect(Campaign.fromJSONAsync('{')).rejects.toThrow('Invalid JSON data: {')
+  })
+
+  test('should run after the synchronous validators', async () => {
+    const result = await Campaign.safeFromObjectAsync({ ...valid, code: 'SUMMER', postalCode: 'x' })
+
+    expect(result.errors.map(error => error.path)).toEqual(['/postalCode'])
+  })
+
+  test('should run in validateAsync()', async () => {
+    await expect(new Campaign().validateAsync()).resolves.toBeUndefined()
+    await expect(new Campaign('SUMMER').validateAsync()).rejects.toThrow(EntityValidationError)
+
+    const result = await new Campaign('SUMMER').safeValidateAsync()
+
+    expect(result.errors).toEqual([{ path: '/code', keyword: 'unique', message: 'must be unique', params: {} }])
+  })
+})
@@ -0,0 +1,180 @@
+import { describe, expect, test } from '@jest/globals'
+import SmartEntity, { EntityValidationError, Migration } from '../src/index'
+
+class Place extends SmartEntity<Place> {
+  protected _schemaVersion = 2
+  protected _migrations: Record<number, Migration> = {
+    1: ({ zip, ...data }) => ({ ...data, postalCode: zip }),
+  }
+  protected _schemaHints = {
+    postalCode: { type: 'string' },
+  }
+
+  constructor(public postalCode: string = '100-0001') {
+    super()
+  }
+}
+
+class Customer extends SmartEntity<Customer> {
+  protected _schemaVersion = 3
+  protected _stampVersion = true
+  protected _migrations: Record<number, Migration> = {
+    1: ({ createAt, ...data }) => ({ ...data, createdAt: createAt }),
+    2: ({ address, ...data }) => ({ ...data, city: address.city, places: [address.place] }),
+  }
+  protected _requiredFields = ['name', 'createdAt']
+  protected _schemaHints = {
+    name: { type: 'string' },
+    createdAt: { type: 'string' },
+    city: { type: 'string' },
+    places: { type: 'array', items: { type: 'object', entity: Place } },
+  }
+
+  constructor(
+    public name: string = 'Alice',
+    public createdAt: string = '2024-01-01',
+    public city: string = 'Tokyo',
+    public places: Place[] = [new Place()]
+  ) {
+    super()
+  }
+}
+
+class Draft extends SmartEntity<Draft> {
+  protected _schemaVersion = 2
+  protected _schemaHints = {
+    title: { type: 'string' },
+  }
+
+  constructor(public title: string = 'untitled') {
+    super()
+  }
+}
+
+class Article extends SmartEntity<Article> {
+  protected _schemaVersion = 2
+  protected _migrations: Record<number, Migration> = {
+    1: ({ title, ...data }) => ({ ...data, heading: String(title).toUpperCase() }),
+  }
+  protected _schemaHints = {
+    heading: { type: 'string' },
+    body: { type: 'string' },
+  }
+
+  constructor(public heading: string = '', public body: string = '') {
+    super()
+  }
+}
+
+class UnstampedArticle extends Article {
+  protected _stampVersion = false
+}
+
+describe('schema versions', () => {
+  test('should stamp the schema version of nested entities along with the outermost one', () => {
+    const customer = new Customer()
+
+    expect(customer.toObject()).toEqual({
+      $version: 3,
+      name: 'Alice',
+      createdAt: '2024-01-01',
+      city: 'Tokyo',
+      places: [{ $version: 2, postalCode: '100-0001' }],
+    })
+    expect(new Place().toObject()).toEqual({ $version: 2, postalCode: '100-0001' })
+    expect(new Place().toObject({ stampVersion: false })).toEqual({ postalCode: '100-0001' })
+    expect(customer.toObject({ stampVersion: false })).not.toHaveProperty('$version')
+  })
+
+  test('should run migrations in order before validation', () => {
+    const customer = Customer.fromJSON(JSON.stringify({
+      name: 'Bob',
+      createAt: '2020-05-05',
+      address: { city: 'Osaka', place: { zip: '530-0001' } },
+    }))
+
+    expect(customer.createdAt).toBe('2020-05-05')
+    expect(customer.city).toBe('Osaka')
+    expect(customer.places[0]).toBeInstanceOf(Place)
+    expect(customer.places[0].postalCode).toBe('530-0001')
+  })
+
+  test('should start from the stamped version', () => {
+    const customer = Customer.fromObject({
+      $version: 2,
+      name: 'Bob',
+      createdAt: '2020-05-05',
+      address: { city: 'Osaka', place: { $version: 2, postalCode: '530-0001' } },
+    })
+
+    expect(customer.places[0].postalCode).toBe('530-0001')
+  })
+
+  test('should round trip stamped payloads', () => {
+    const customer = new Customer()
+
+    expect(Customer.fromJSON(customer.serialize()).toObject()).toEqual(customer.toObject())
+    expect(customer.clone().toObject()).toEqual(customer.toObject())
+  })
+
+  test('should not migrate current data again in internal round trips', () => {
+    const article = UnstampedArticle.fromObject({ title: 'old', body: 'x' })
+
+    expect(article.heading).toBe('OLD')
+    expect(article.toObject()).toEqual({ heading: 'OLD', body: 'x' })
+    expect(article.withPatch({ body: 'y' }).heading).toBe('OLD')
+    expect(article.applyMergePatch({ body: 'y' }).heading).toBe('OLD')
+    expect(article.applyJsonPatch([{ op: 'replace', path: '/body', value: 'y' }]).heading).toBe('OLD')
+    expect(article.clone({ validate: true }).heading).toBe('OLD')
+    expect(() => article.validate()).not.toThrow()
+  })
+
+  test('should stamp the version by default, so that serialized entities are not migrated again', () => {
+    const article = Article.fromObject({ title: 'old', body: 'x' })
+
+    expect(article.serialize()).toBe('{"$version":2,"heading":"OLD","body":"x"}')
+    expect(Article.fromJSON(article.serialize()).toObject()).toEqual(article.toObject())
+  })
+
+  test('should describe the version field in the JSON schema', () => {
+    const schema = Customer.getJsonSchema()
+
+    expect(schema.properties.$version).toEqual({ type: 'integer', const: 3 })
+    expect(schema.required).not.toContain('$version')
+  })
+
+  test('should reject payloads newer than the code', () => {
+    const json = JSON.stringify({ $version: 4, name: 'Bob', createdAt: '2020-05-05' })
+
+    expect(() => Customer.fromJSON(json)).toThrow(EntityValidationError)
+    expect(() => Customer.fromJSON(json)).toThrow('Validation failed: /$version must not be newer than schema version 3')
+    expect(Customer.safeFromJSON(json).errors).toEqual([
+      {
+        path: '/$version',
+        keyword: 'version',
+        message: 'must not be newer than schema version 3',
+        params: { version: 4, schemaVersion: 3 },
+      },
+    ])
+  })
+
+  test('should report nested versions with their path', () => {
+    const result = Customer.safeFromObject({
+      $version: 3,
+      name: 'Bob',
+      createdAt: '2020-05-05',
+      places: [{ postalCode: 'a' }, { $version: 5, postalCode: 'b' }],
+    })
+
+    expect(result.errors.map(error => `${error.path} ${error.message}`)).toEqual([
+      '/places/1/$version must not be newer than schema version 2',
+    ])
+  })
+
+  test('should reject invalid versions and missing migrations', () => {
+    expect(Customer.safeFromObject({ $version: 'x', name: 'Bob', createdAt: '' }).errors[0].message).toBe(
+      'must be a positive integer'
+    )
+    expect(Draft.safeFromObject({ title: 'a' }).errors[0].message).toBe('has no migration from version 1')
+  })
+})
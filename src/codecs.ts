@@ -0,0 +1,103 @@
+/**
+ * Converts a field value between its runtime type and its JSON shape.
+ *
+ * @template V The runtime type of the field.
+ * @template J The JSON type of the field.
+ */
+export type FieldCodec<V = any, J = any> = {
+  /** JSON schema fragment describing the JSON shape. */
+  schema: Record<string, any>;
+  /** Converts a runtime value into its JSON shape. */
+  encode(value: V): J;
+  /** Converts a JSON value back into its runtime type. */
+  decode(json: J): V;
+};
+
+/**
+ * Encodes a date, leaving invalid dates to be rejected by the schema.
+ *
+ * @param value The date to encode.
+ * @param dateOnly Whether to drop the time part.
+ * @returns The ISO 8601 string, or the value itself if it is not a valid date.
+ */
+const encodeDate = (value: any, dateOnly: boolean): any => {
+  if (!(value instanceof Date)) return value;
+  if (isNaN(value.getTime())) return String(value);
+
+  const iso = value.toISOString();
+  return dateOnly ? iso.slice(0, 10) : iso;
+};
+
+/**
+ * JSON Schema types, which cannot be used as codec names.
+ */
+const jsonSchemaTypes = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+
+/**
+ * Built-in codecs, keyed by the `type` of a schema hint.
+ */
+const builtinCodecs: Record<string, FieldCodec> = {
+  date: {
+    schema: { type: 'string', format: 'date' },
+    encode: (value: Date) => encodeDate(value, true),
+    decode: (json: string) => new Date(json),
+  },
+  'date-time': {
+    schema: { type: 'string', format: 'date-time' },
+    encode: (value: Date) => encodeDate(value, false),
+    decode: (json: string) => new Date(json),
+  },
+  bigint: {
+    schema: { type: 'string', pattern: '^-?[0-9]+$' },
+    encode: (value: bigint) => (typeof value === 'bigint' ? value.toString() : value),
+    decode: (json: string) => BigInt(json),
+  },
+  map: {
+    schema: { type: 'object' },
+    encode: (value: Map<string, any>) =>
+      value instanceof Map ? Object.fromEntries(value) : value,
+    decode: (json: Record<string, any>) => new Map(Object.entries(json)),
+  },
+  set: {
+    schema: { type: 'array', uniqueItems: true },
+    encode: (value: Set<any>) => (value instanceof Set ? Array.from(value) : value),
+    decode: (json: any[]) => new Set(json),
+  },
+  url: {
+    schema: { type: 'string', format: 'uri' },
+    encode: (value: URL) => (value instanceof URL ? value.toString() : value),
+    decode: (json: string) => new URL(json),
+  },
+};
+
+/**
+ * Registered codecs, keyed by the `type` of a schema hint.
+ */
+const codecs = new Map<string, FieldCodec>(Object.entries(builtinCodecs));
+
+/**
+ * Registers a codec, so that schema hints can refer to it by name in `type`.
+ *
+ * Codecs must be registered before the entities using them generate their
+ * schema; otherwise call `SmartEntity.clearSchemaCache()` afterwards.
+ *
+ * @param name The name used as `type` in schema hints.
+ * @param codec The codec. Replaces any codec registered with the same name.
+ * @throws If the name is a JSON Schema type.
+ */
+export function registerCodec<V, J>(name: string, codec: FieldCodec<V, J>): void {
+  if (jsonSchemaTypes.includes(name)) {
+    throw new Error(`Codec name must not be a JSON Schema type: ${name}`);
+  }
+  codecs.set(name, codec);
+}
+
+/**
+ * Returns the codec for a schema hint type.
+ *
+ * @param type The `type` of the schema hint, if any.
+ * @returns The codec, or `undefined` if the type is a plain JSON Schema type.
+ */
+export function getCodec(type: string | undefined): FieldCodec | undefined {
+  return type === undefined ? undefined : codecs.get(type);
+}
@@ -0,0 +1,198 @@
+import type { BaseSchemaHint, EntityClass, SchemaHint } from './index';
+
+/**
+ * Field definitions of an entity, as written by the field decorators.
+ */
+export type FieldMetadata = {
+  /** Schema hints keyed by field name. */
+  schemaHints: Record<string, SchemaHint>;
+  /** Fields that are required in the schema. */
+  requiredFields: string[];
+  /** Fields that can be masked during JSON serialization. */
+  maskableFields: string[];
+};
+
+/**
+ * Decorator applicable to a class field, with either legacy
+ * `experimentalDecorators` or TC39 standard decorators.
+ */
+export type FieldDecorator = (target: any, context: any) => void;
+
+/**
+ * Options shared by the decorators that build the schema hint themselves.
+ */
+export type FieldOptions = Omit<BaseSchemaHint, 'type'>;
+
+/**
+ * Field definitions declared on each class, keyed by constructor.
+ */
+const declaredMetadata = new WeakMap<Function, FieldMetadata>();
+
+/**
+ * Returns the field definitions declared on a class itself, creating them if needed.
+ *
+ * @param ctor The constructor of the class.
+ * @returns The field definitions of the class.
+ */
+const ownMetadata = (ctor: Function): FieldMetadata => {
+  let metadata = declaredMetadata.get(ctor);
+  if (!metadata) {
+    metadata = { schemaHints: {}, requiredFields: [], maskableFields: [] };
+    declaredMetadata.set(ctor, metadata);
+  }
+  return metadata;
+};
+
+/**
+ * Creates a field decorator that updates the field definitions of the class.
+ *
+ * Legacy decorators receive the prototype and the field name, and update the
+ * class when it is defined. Standard decorators receive no class, so the
+ * update runs through an initializer when an instance is constructed.
+ *
+ * @param update Updates the field definitions for the decorated field.
+ * @returns The field decorator.
+ */
+const fieldDecorator = (
+  update: (metadata: FieldMetadata, name: string) => void
+): FieldDecorator => {
+  return (target: any, context: any): void => {
+    if (context && typeof context === 'object' && 'kind' in context) {
+      const name = String(context.name);
+      context.addInitializer(function (this: any) {
+        update(ownMetadata(this.constructor), name);
+      });
+    } else {
+      update(ownMetadata(target.constructor), String(context));
+    }
+  };
+};
+
+/**
+ * Adds a field name to a list once.
+ *
+ * @param list The list to update.
+ * @param name The field name.
+ */
+const addOnce = (list: string[], name: string): void => {
+  if (!list.includes(name)) list.push(name);
+};
+
+/**
+ * Returns the field definitions written by decorators for a class and its
+ * ancestors.
+ *
+ * @param ctor The constructor of the class.
+ * @returns The merged field definitions, or `undefined` if no decorator was used.
+ */
+export function getFieldMetadata(ctor: Function): FieldMetadata | undefined {
+  const chain: FieldMetadata[] = [];
+  for (let current = ctor; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+    const metadata = declaredMetadata.get(current);
+    if (metadata) chain.unshift(metadata);
+  }
+  if (chain.length === 0) return undefined;
+
+  const merged: FieldMetadata = { schemaHints: {}, requiredFields: [], maskableFields: [] };
+  for (const metadata of chain) {
+    Object.assign(merged.schemaHints, metadata.schemaHints);
+    metadata.requiredFields.forEach(name => addOnce(merged.requiredFields, name));
+    metadata.maskableFields.forEach(name => addOnce(merged.maskableFields, name));
+  }
+  return merged;
+}
+
+/**
+ * Declares the schema hint of a field.
+ *
+ * @param hint The schema hint of the field.
+ * @returns The field decorator.
+ */
+export function field(hint: SchemaHint): FieldDecorator {
+  return fieldDecorator((metadata, name) => {
+    metadata.schemaHints[name] = hint;
+  });
+}
+
+/**
+ * Declares a field as required in the schema.
+ */
+export const required: FieldDecorator = fieldDecorator((metadata, name) => {
+  addOnce(metadata.requiredFields, name);
+});
+
+/**
+ * Declares a field as masked during JSON serialization.
+ */
+export const masked: FieldDecorator = fieldDecorator((metadata, name) => {
+  addOnce(metadata.maskableFields, name);
+});
+
+/**
+ * Declares a field holding an instance of an entity class.
+ *
+ * @param entity The entity class of the field.
+ * @param options Additional schema hint options (e.g., `nullable`).
+ * @returns The field decorator.
+ */
+export function nested(entity: EntityClass, options: FieldOptions = {}): FieldDecorator {
+  return field({ ...options, type: 'object', entity });
+}
+
+/**
+ * Declares an array field.
+ *
+ * @param items The entity class of the items, or the schema hint of the items.
+ * @param options Additional schema hint options (e.g., `nullable`).
+ * @returns The field decorator.
+ */
+export function arrayOf(items: EntityClass | SchemaHint, options: FieldOptions = {}): FieldDecorator {
+  return field({
+    ...options,
+    type: 'array',
+    items: typeof items === 'function' ? { type: 'object', entity: items } : items,
+  });
+}
+
+/**
+ * Number of entity constructions in progress whose instances are filled in
+ * after construction, and frozen once filled.
+ */
+let unfrozenConstructions = 0;
+
+/**
+ * Constructs an entity without freezing it, even if its class is `@immutable`.
+ *
+ * @param create Constructs the entity.
+ * @returns The entity.
+ */
+export function constructUnfrozen<E>(create: () => E): E {
+  unfrozenConstructions++;
+  try {
+    return create();
+  } finally {
+    unfrozenConstructions--;
+  }
+}
+
+/**
+ * Declares an entity class as immutable: its instances are deep-frozen when
+ * constructed, and by `fromJSON()`, `fromObject()`, `clone()` and `with()`.
+ *
+ * Subclasses of an immutable class must be declared immutable too for their
+ * own constructors to freeze their instances.
+ *
+ * @param target The entity class.
+ * @returns The immutable entity class.
+ */
+export function immutable<C extends new (...args: any[]) => any>(target: C): C {
+  const Immutable = class extends target {
+    constructor(...args: any[]) {
+      super(...args);
+      this._immutable = true;
+      if (new.target === Immutable && unfrozenConstructions === 0) this.freeze();
+    }
+  };
+  Object.defineProperty(Immutable, 'name', { value: target.name });
+  return Immutable;
+}
@@ -0,0 +1,132 @@
+/**
+ * A change between two entity instances.
+ */
+export type EntityChange = {
+  /** Whether the value was added, removed or changed. */
+  type: 'added' | 'removed' | 'changed';
+  /** JSON Pointer to the value (e.g., `/address/postalCode`). */
+  path: string;
+  /** The previous value, absent for `added`. */
+  from?: any;
+  /** The new value, absent for `removed`. */
+  to?: any;
+};
+
+/**
+ * A change of a value since an entity was loaded or marked clean.
+ */
+export type FieldChange = Pick<EntityChange, 'from' | 'to'>;
+
+/**
+ * The values compared at a path, and the values reported for it.
+ */
+type DiffSide = {
+  /** The value compared. */
+  value: any;
+  /** The value reported in the change. */
+  reported: any;
+};
+
+/**
+ * Returns whether a value is a JSON object (not an array, not null).
+ *
+ * @param value The value to check.
+ * @returns Whether the value is a JSON object.
+ */
+const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Returns whether an object has a property of its own.
+ *
+ * @param value The object.
+ * @param key The property name.
+ * @returns Whether the property is not inherited.
+ */
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Escapes a key for use as a JSON Pointer reference token.
+ *
+ * @param key The key.
+ * @returns The reference token.
+ */
+const escapeToken = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Returns the child of a side, keeping the reported value aligned.
+ *
+ * @param side The side.
+ * @param key The key or index of the child.
+ * @returns The child side.
+ */
+const child = (side: DiffSide, key: string | number): DiffSide => ({
+  value: side.value[key],
+  reported: side.reported !== null && typeof side.reported === 'object' ? side.reported[key] : side.reported,
+});
+
+/**
+ * Collects the changes between two JSON values.
+ *
+ * @param before The previous side.
+ * @param after The new side.
+ * @param path The JSON Pointer of the values.
+ * @param changes The list the changes are added to.
+ */
+const collect = (before: DiffSide, after: DiffSide, path: string, changes: EntityChange[]): void => {
+  const a = before.value;
+  const b = after.value;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const itemPath = `${path}/${i}`;
+      if (i >= b.length) {
+        changes.push({ type: 'removed', path: itemPath, from: child(before, i).reported });
+      } else if (i >= a.length) {
+        changes.push({ type: 'added', path: itemPath, to: child(after, i).reported });
+      } else {
+        collect(child(before, i), child(after, i), itemPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    for (const key of keys) {
+      const keyPath = `${path}/${escapeToken(key)}`;
+      if (!hasOwn(b, key)) {
+        changes.push({ type: 'removed', path: keyPath, from: child(before, key).reported });
+      } else if (!hasOwn(a, key)) {
+        changes.push({ type: 'added', path: keyPath, to: child(after, key).reported });
+      } else {
+        collect(child(before, key), child(after, key), keyPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (a !== b && !(Number.isNaN(a) && Number.isNaN(b))) {
+    changes.push({ type: 'changed', path, from: before.reported, to: after.reported });
+  }
+};
+
+/**
+ * Computes the structural changes between two JSON values.
+ *
+ * @param before The previous value.
+ * @param after The new value.
+ * @param reportedBefore The previous value as reported in changes (e.g., masked).
+ * @param reportedAfter The new value as reported in changes (e.g., masked).
+ * @returns The changes, in document order.
+ */
+export function diffJson(
+  before: any,
+  after: any,
+  reportedBefore: any = before,
+  reportedAfter: any = after
+): EntityChange[] {
+  const changes: EntityChange[] = [];
+  collect({ value: before, reported: reportedBefore }, { value: after, reported: reportedAfter }, '', changes);
+  return changes;
+}
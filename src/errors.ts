@@ -0,0 +1,68 @@
+/**
+ * A single validation problem reported for an entity.
+ */
+export type ValidationIssue = {
+  /** JSON Pointer to the offending field (e.g., `/address/postalCode`). */
+  path: string;
+  /** The JSON Schema keyword that failed (e.g., `required`, `type`). */
+  keyword: string;
+  /** Human readable description of the problem. */
+  message: string;
+  /** Keyword specific parameters reported by the validator. */
+  params: Record<string, any>;
+};
+
+/**
+ * Validation problem reported by a custom validator of an entity.
+ */
+export type CustomValidationIssue = {
+  /** JSON Pointer to the offending field, relative to the entity (e.g., `/endDate`). */
+  path: string;
+  /** Human readable description of the problem. */
+  message: string;
+  /** Name of the failed rule. Defaults to `custom`. */
+  keyword?: string;
+  /** Rule specific parameters. */
+  params?: Record<string, any>;
+};
+
+/**
+ * Error thrown when an entity does not match its schema.
+ */
+export class EntityValidationError extends Error {
+  /**
+   * The validation problems that caused the error.
+   */
+  readonly errors: ValidationIssue[];
+
+  /**
+   * @param errors The validation problems that caused the error.
+   */
+  constructor(errors: ValidationIssue[]) {
+    super(
+      `Validation failed: ${errors.map(err => `${err.path} ${err.message}`).join(', ')}`
+    );
+    this.name = 'EntityValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Error thrown when an entity holds a value that holds the entity itself, and
+ * references are not preserved.
+ */
+export class CircularReferenceError extends Error {
+  /**
+   * JSON Pointer to the field closing the cycle (e.g., `/address/owner`).
+   */
+  readonly path: string;
+
+  /**
+   * @param path JSON Pointer to the field closing the cycle.
+   */
+  constructor(path: string) {
+    super(`Circular reference at ${path}`);
+    this.name = 'CircularReferenceError';
+    this.path = path;
+  }
+}
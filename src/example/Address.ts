@@ -1,9 +1,9 @@
-import SmartEntity from '../index'
+import SmartEntity, {FieldNames, SchemaHints} from '../index'
 
 export class Address extends SmartEntity<Address> {
-  protected _maskableFields = ['postalCode', 'address']
-  protected _requiredFields = ['postalCode', 'address']
-  protected _schemaHints = {
+  protected _maskableFields: FieldNames<Address>[] = ['postalCode', 'address']
+  protected _requiredFields: FieldNames<Address>[] = ['postalCode', 'address']
+  protected _schemaHints: SchemaHints<Address> = {
     postalCode: {type: 'string'},
     address: {type: 'string'}
   }
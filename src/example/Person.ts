@@ -1,12 +1,12 @@
 import crypto from 'crypto'
-import SmartEntity from '../index'
+import SmartEntity, {FieldNames, SchemaHints} from '../index'
 import {Address} from './Address'
 
 export class Person extends SmartEntity<Person> {
-  protected _maskableFields = ['name']
-  protected _requiredFields = ['name']
-  protected _schemaHints = {
-    id: {type: 'string'},
+  protected _maskableFields: FieldNames<Person>[] = ['name']
+  protected _requiredFields: FieldNames<Person>[] = ['name']
+  protected _schemaHints: SchemaHints<Person> = {
+    id: {type: 'string', format: 'uuid'},
     name: {type: 'string'},
     age: {type: 'number', nullable: true},
     isActive: {type: 'boolean', nullable: false},
@@ -14,7 +14,7 @@ export class Person extends SmartEntity<Person> {
     hobbies: {type: 'array', nullable: true},
     address: {
       type: 'object',
-      schema: Address.getJsonSchema(),
+      entity: Address,
       nullable: true
     }
   }
@@ -0,0 +1,44 @@
+import {performance} from 'perf_hooks'
+import {Person} from './index'
+
+type Case = {name: string; run: () => unknown}
+
+/**
+ * Runs a function repeatedly and returns its throughput.
+ *
+ * @param run The function to measure.
+ * @param iterations The number of measured runs, after as many warm-up runs.
+ * @returns The number of runs per second.
+ */
+const measure = (run: () => unknown, iterations: number): number => {
+  for (let i = 0; i < iterations; i++) run()
+
+  const start = performance.now()
+  for (let i = 0; i < iterations; i++) run()
+  return Math.round(iterations / ((performance.now() - start) / 1000))
+}
+
+const person = Person.example()
+const hobbyist = Object.assign(Person.example(), {
+  hobbies: Array.from({length: 100}, (_, i) => `hobby ${i}`)
+})
+
+const cases: Case[] = [
+  {name: 'clone()', run: () => person.clone()},
+  {name: 'clone({deep: false})', run: () => person.clone({deep: false})},
+  {name: 'clone({validate: true})', run: () => person.clone({validate: true})},
+  {name: 'fromJSON(serialize())', run: () => Person.fromJSON(person.serialize())},
+  {
+    name: 'fromJSON(serialize()) uncached schema',
+    run: () => {
+      Person.clearSchemaCache()
+      return Person.fromJSON(person.serialize())
+    }
+  },
+  {name: 'clone() 100 hobbies', run: () => hobbyist.clone()},
+  {name: 'fromJSON(serialize()) 100 hobbies', run: () => Person.fromJSON(hobbyist.serialize())}
+]
+
+const iterations = Number(process.argv[2] ?? 10000)
+console.log(`*** Clone a Person instance ${iterations} times ***\n`)
+console.table(cases.map(({name, run}) => ({case: name, 'ops/sec': measure(run, iterations)})))
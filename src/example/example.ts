@@ -18,18 +18,18 @@ const person = Person.example()
 
 console.log('*** Create a Person instance from example ***\n')
 console.log('\nPerson instance to compact JSON:\n')
-console.log(person.toJSON())
+console.log(person.serialize())
 console.log('\nPerson instance to pretty JSON:\n')
-console.log(person.toJSON(true))
+console.log(person.serialize({pretty: true}))
 console.log('\nPerson instance to pretty and masked JSON:\n')
-console.log(person.toJSON(true, true))
+console.log(person.serialize({pretty: true, mask: true}))
 
 console.log('\n*** Clone a Person instance ***\n')
 const person2 = person.clone()
-console.log(person2.toJSON())
+console.log(person2.serialize())
 
 console.log('\n*** Create a Person instance from JSON ***\n')
-const person3 = Person.fromJSON(json) as Person
+const person3 = Person.fromJSON(json)
 console.log('\nJSON:\n', json)
 console.log('\nPerson instance to pretty JSON:\n')
-console.log(person3.toJSON())
+console.log(person3.serialize())
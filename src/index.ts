@@ -1,10 +1,34 @@
-import Ajv, { JSONSchemaType } from 'ajv'
+import Ajv, { ErrorObject, JSONSchemaType, ValidateFunction } from 'ajv'
+import addFormats from 'ajv-formats'
+import { getCodec } from './codecs'
+import { constructUnfrozen, FieldMetadata, getFieldMetadata } from './decorators'
+import { diffJson, EntityChange, FieldChange } from './diff'
+import { CircularReferenceError, CustomValidationIssue, EntityValidationError, ValidationIssue } from './errors'
+import { MaskingStrategies, maskValue } from './masking'
+import { convertName, NamingStrategy } from './naming'
+import { applyJsonPatch, applyMergePatch, JsonPatchOperation } from './patch'
+import { createCursors, findMatched, PathCursor, projectSchema, stepCursors } from './paths'
+
+export { registerCodec } from './codecs'
+export type { FieldCodec } from './codecs'
+export { arrayOf, field, immutable, masked, nested, required } from './decorators'
+export type { FieldDecorator, FieldOptions } from './decorators'
+export type { EntityChange, FieldChange } from './diff'
+export { CircularReferenceError, EntityValidationError } from './errors'
+export type { MaskingStrategies, MaskingStrategy } from './masking'
+export type { NamingStrategy } from './naming'
+export type { JsonPatchOperation } from './patch'
+export type { CustomValidationIssue, ValidationIssue } from './errors'
 
 /**
  * Base schema hint for defining validation rules for fields.
  */
 export type BaseSchemaHint = {
-  /** The type of the field (e.g., string, number, boolean, array, object). */
+  /**
+   * The type of the field (e.g., string, number, boolean, array, object), or
+   * the name of a field codec (built-in: date, date-time, bigint, map, set,
+   * url; others can be added with `registerCodec()`).
+   */
   type: string;
   /** Whether the field can be null. */
   nullable?: boolean;
@@ -16,10 +40,47 @@ export type BaseSchemaHint = {
   minimum?: number;
   /** Maximum value for number fields. */
   maximum?: number;
+  /** Exclusive minimum value for number fields. */
+  exclusiveMinimum?: number;
+  /** Exclusive maximum value for number fields. */
+  exclusiveMaximum?: number;
+  /** Number that the value of number fields must be a multiple of. */
+  multipleOf?: number;
   /** Regular expression pattern for string fields. */
   pattern?: string;
+  /**
+   * Format of string fields, from ajv-formats (e.g., email, uuid, uri,
+   * date-time).
+   */
+  format?: string;
+  /** Values allowed for the field. */
+  enum?: unknown[];
+  /** Only value allowed for the field. */
+  const?: unknown;
+  /** Minimum number of items for array fields. */
+  minItems?: number;
+  /** Maximum number of items for array fields. */
+  maxItems?: number;
+  /** Whether the items of array fields must be unique. */
+  uniqueItems?: boolean;
+  /** Name of the field on the wire, overriding the naming strategy. */
+  alias?: string;
+  /**
+   * Value given to the field when the data lacks it, in its wire form (e.g.,
+   * an ISO string for `date-time`). Applied before validation.
+   */
+  default?: unknown;
 };
 
+/**
+ * Constructor of a SmartEntity subclass. It may be abstract when it is the
+ * base of subtypes registered with `registerSubtype()`.
+ *
+ * @template E The type of the entity instance.
+ */
+export type EntityClass<E extends SmartEntity<any> = SmartEntity<any>> =
+  typeof SmartEntity<any> & (abstract new (...args: any[]) => E);
+
 /**
  * Schema hint for array fields.
  */
@@ -27,7 +88,7 @@ export type ArraySchemaHint = BaseSchemaHint & {
   /** Specifies that the field is an array. */
   type: 'array';
   /** Schema for the items in the array. */
-  items: BaseSchemaHint | { schema: JSONSchemaType<any> };
+  items: BaseSchemaHint | ObjectSchemaHint | UnionSchemaHint | { schema: JSONSchemaType<any> };
 };
 
 /**
@@ -38,12 +99,428 @@ export type ObjectSchemaHint = BaseSchemaHint & {
   type: 'object';
   /** JSON schema for the object. */
   schema?: JSONSchemaType<any>;
+  /** Entity class used to build the schema and to rehydrate the object. */
+  entity?: EntityClass;
+};
+
+/**
+ * Schema hint for polymorphic fields, whose values match one or any of
+ * several schema hints. The values are kept as plain data: codecs and entity
+ * classes of the branches do not apply to them.
+ */
+export type UnionSchemaHint = Omit<BaseSchemaHint, 'type'> & {
+  /** Omitted: the branches give the types of the field. */
+  type?: undefined;
+  /** Schema hints of which exactly one must match the value. */
+  oneOf?: SchemaHint[];
+  /** Schema hints of which at least one must match the value. */
+  anyOf?: SchemaHint[];
 };
 
 /**
  * Union type for all schema hints.
  */
-export type SchemaHint = BaseSchemaHint | ArraySchemaHint | ObjectSchemaHint;
+export type SchemaHint = BaseSchemaHint | ArraySchemaHint | ObjectSchemaHint | UnionSchemaHint;
+
+/**
+ * Names of the data fields of an entity: its public properties that are not
+ * methods.
+ *
+ * @template T The type of the entity.
+ */
+export type FieldNames<T> = {
+  [K in keyof T]-?: T[K] extends (...args: any[]) => any ? never : K;
+}[keyof T] &
+  string;
+
+/**
+ * Schema hint options other than `type`.
+ */
+type HintOptions = Omit<BaseSchemaHint, 'type'>;
+
+/**
+ * Schema hint matching the TypeScript type of a field.
+ *
+ * @template V The type of the field.
+ */
+export type SchemaHintFor<V> = 0 extends 1 & V
+  ? SchemaHint
+  : UnionSchemaHint | SchemaHintForType<V>;
+
+/**
+ * Schema hint with a `type` matching the TypeScript type of a field.
+ *
+ * @template V The type of the field.
+ */
+type SchemaHintForType<V> = NonNullable<V> extends infer U
+  ? U extends string
+    ? HintOptions & { type: 'string' }
+    : U extends number
+    ? HintOptions & { type: 'number' | 'integer' }
+    : U extends boolean
+    ? HintOptions & { type: 'boolean' }
+    : U extends bigint
+    ? HintOptions & { type: 'bigint' }
+    : U extends Date
+    ? HintOptions & { type: 'date' | 'date-time' }
+    : U extends URL
+    ? HintOptions & { type: 'url' }
+    : U extends Map<any, any>
+    ? HintOptions & { type: 'map' }
+    : U extends Set<any>
+    ? HintOptions & { type: 'set' }
+    : U extends readonly (infer I)[]
+    ? HintOptions & {
+        type: 'array';
+        items?: SchemaHintFor<I> | { schema: JSONSchemaType<any> };
+      }
+    : U extends SmartEntity<any>
+    ? HintOptions & {
+        type: 'object';
+        schema?: JSONSchemaType<any>;
+        entity?: EntityClass<U>;
+      }
+    : HintOptions & { type: string; schema?: JSONSchemaType<any> }
+  : never;
+
+/**
+ * Schema hints of an entity, checked against its TypeScript shape: every
+ * data field needs a hint whose `type` matches the type of the field.
+ *
+ * @template T The type of the entity.
+ */
+export type SchemaHints<T> = {
+  [K in FieldNames<T>]: SchemaHintFor<T[K]>;
+};
+
+/**
+ * Result of a non-throwing validation.
+ *
+ * @template U The type of the validated value.
+ */
+export type ValidationResult<U> =
+  | { success: true; value: U; errors: ValidationIssue[] }
+  | { success: false; value: undefined; errors: ValidationIssue[] };
+
+/**
+ * What `fromJSON()` and `fromObject()` do with properties the schema of an
+ * entity does not describe:
+ *
+ * - `reject`: fail validation.
+ * - `strip`: drop them silently.
+ * - `keep`: retain them in an overflow bag that `toObject()` and
+ *   `serialize()` write back.
+ * - `warn`: drop them, reporting each to a hook.
+ */
+export type UnknownPropertyPolicy = 'reject' | 'strip' | 'keep' | 'warn';
+
+/**
+ * Options for creating an entity from a plain object or a JSON string.
+ */
+export type FromObjectOptions = {
+  /** Policy for unknown properties, overriding the policy of every entity class. */
+  unknownProperties?: UnknownPropertyPolicy;
+  /**
+   * Hook called for each unknown property under the `warn` policy, overriding
+   * `SmartEntity.onUnknownProperty`.
+   */
+  onUnknownProperty?: (issue: ValidationIssue) => void;
+  /**
+   * Whether to coerce values to the types of their schema (e.g., `"42"` to
+   * `42` for a number field), overriding `_coerceTypes` of the entity class.
+   */
+  coerceTypes?: boolean;
+  /**
+   * Hook called for each value coerced, overriding `SmartEntity.onCoercion`.
+   */
+  onCoercion?: (coercion: TypeCoercion) => void;
+  /**
+   * Whether to restore the entities referenced by `$ref` markers, overriding
+   * `_preserveReferences` of the entity class.
+   */
+  preserveReferences?: boolean;
+  /**
+   * Whether to track the changes made to the entity from now on, overriding
+   * `_trackChanges` of the entity class. Turn it off on hot paths.
+   */
+  trackChanges?: boolean;
+};
+
+/**
+ * Value coerced to the type of its schema by `fromJSON()` or `fromObject()`.
+ */
+export type TypeCoercion = {
+  /** JSON Pointer of the value. */
+  path: string;
+  /** The value in the data. */
+  from: unknown;
+  /** The coerced value. */
+  to: unknown;
+};
+
+/**
+ * Custom validator of an entity, run after schema validation for rules JSON
+ * Schema cannot express (e.g., "endDate must be after startDate").
+ *
+ * @template E The type of the entity.
+ * @param entity The entity, which matches its schema.
+ * @returns The validation problems, if any.
+ */
+export type EntityValidator<E> = (entity: E) => CustomValidationIssue[] | void;
+
+/**
+ * Asynchronous custom validator of an entity (e.g., a uniqueness check
+ * against a store), run by the asynchronous creation and validation methods.
+ *
+ * @template E The type of the entity.
+ * @param entity The entity, which matches its schema.
+ * @returns The validation problems, if any.
+ */
+export type AsyncEntityValidator<E> = (entity: E) => Promise<CustomValidationIssue[] | void>;
+
+/**
+ * Migration of the plain object representation of an entity from one schema
+ * version to the next.
+ *
+ * @param data The data in the wire shape of the older version.
+ * @returns The data in the wire shape of the next version.
+ */
+export type Migration = (data: Record<string, any>) => Record<string, any>;
+
+/**
+ * Options for converting an entity to a plain object.
+ */
+export type ToObjectOptions = {
+  /**
+   * Whether to mask sensitive fields, or the name of the masking profile
+   * whose strategies mask them.
+   */
+  mask?: boolean | string;
+  /**
+   * Paths of the only values to include, in the syntax of masking paths
+   * (e.g., `name`, `address.city`, `contacts[*].phone`).
+   */
+  include?: string[];
+  /** Paths of the values to leave out, in the syntax of masking paths. */
+  exclude?: string[];
+  /**
+   * Name of the serialization group (e.g., `public`) listing the fields to
+   * include. Nested entities apply their own group of the same name, if any.
+   */
+  group?: string;
+  /**
+   * Whether versioned entities stamp their schema version. Defaults to the
+   * `_stampVersion` of the outermost versioned entity, so that nested
+   * entities are stamped along with it.
+   */
+  stampVersion?: boolean;
+  /**
+   * Whether to write each entity once, with an `$id`, and a `$ref` marker
+   * wherever it appears again, so that shared entities and cycles survive.
+   * Defaults to `_preserveReferences` of the outermost entity.
+   */
+  preserveReferences?: boolean;
+};
+
+/**
+ * Options for generating the JSON schema of an entity.
+ */
+export type JsonSchemaOptions = {
+  /** Name of the serialization group whose fields the schema describes. */
+  group?: string;
+};
+
+/**
+ * Options for serializing an entity to a JSON string.
+ */
+export type SerializeOptions = ToObjectOptions & {
+  /** Whether to format the JSON string with indentation. */
+  pretty?: boolean;
+};
+
+/**
+ * Options for computing the changes between two entities.
+ */
+export type DiffOptions = {
+  /**
+   * Whether to mask the values of sensitive fields in the changes, or the
+   * name of the masking profile whose strategies mask them.
+   */
+  redact?: boolean | string;
+};
+
+/**
+ * Options for cloning an entity.
+ */
+export type CloneOptions = {
+  /**
+   * Whether to validate the clone, throwing if it does not match the schema.
+   * Defaults to `false`, so that drafts can be cloned.
+   */
+  validate?: boolean;
+  /**
+   * Whether to copy the values held by the fields as well. Defaults to
+   * `true`; a shallow clone shares them with the entity.
+   */
+  deep?: boolean;
+};
+
+/**
+ * Cached schema and compiled validator of an entity class.
+ */
+type SchemaCacheEntry = {
+  /** The schema, embedded by the schemas of other entities. */
+  schema: JSONSchemaType<any>;
+  /** The schema with the `definitions` of the recursive entities it refers to. */
+  document: JSONSchemaType<any>;
+  validator?: ValidateFunction;
+  coercingValidator?: ValidateFunction;
+  /** The validators accepting `$ref` markers where entities are expected. */
+  referenceValidator?: ValidateFunction;
+  coercingReferenceValidator?: ValidateFunction;
+  groupSchemas: Map<string, JSONSchemaType<any>>;
+};
+
+/**
+ * State of the conversion of an entity to a plain object, advanced along
+ * the path of the value being converted.
+ */
+type ObjectContext = {
+  /** Whether to mask sensitive fields, or the masking profile. */
+  mask: boolean | string;
+  /** Masking paths, with the entity that declared them. */
+  maskPaths: PathCursor<SmartEntity<any>>[];
+  /** Masking path that matched the value or one of its ancestors. */
+  maskedBy?: PathCursor<SmartEntity<any>>;
+  /** Include paths, or `undefined` to include everything. */
+  include?: PathCursor[];
+  /** Exclude paths. */
+  exclude: PathCursor[];
+  /** Serialization group applied by entities the include paths do not narrow. */
+  group?: string;
+  /** Whether to write back the properties kept by the `keep` policy. */
+  overflow: boolean;
+  /**
+   * Whether versioned entities stamp their schema version, as decided by the
+   * options or by the outermost versioned entity; `undefined` lets each
+   * entity decide.
+   */
+  stampVersion?: boolean;
+  /** JSON Pointer of the value, in wire names. */
+  path: string;
+  /** Objects enclosing the value, to detect cycles. */
+  ancestors: Set<object>;
+  /**
+   * Whether entities are referenced by `$ref` markers once written, as
+   * decided by the options or by the outermost entity.
+   */
+  preserveReferences?: boolean;
+  /** `$id` of the entities written so far. */
+  ids: Map<SmartEntity<any>, string>;
+};
+
+/**
+ * References met while preparing data in the `preserveReferences` mode.
+ */
+type ReferenceState = {
+  /** Prepared data of the entities, keyed by their `$id`. */
+  ids: Map<string, Record<string, any>>;
+  /** `$ref` markers, with their JSON Pointer and the entity class expected there. */
+  markers: Map<object, { id: string; path: string; entity: EntityClass }>;
+};
+
+/**
+ * Settings an entity class declares through its instance fields, read once
+ * from an instance so that preparing data constructs no entity.
+ */
+type EntityConfig = {
+  /** Schema hints of the fields, including the decorated ones. */
+  schemaHints: Record<string, SchemaHint>;
+  /** Wire names of the fields with a schema hint, keyed by property name. */
+  wireNames: Map<string, string>;
+  /** Schema version, or `undefined` if the entity is not versioned. */
+  schemaVersion?: number;
+  /** Migrations keyed by the version they migrate from. */
+  migrations: Record<number, Migration>;
+  /** Name of the wire field holding the schema version. */
+  versionField: string;
+  /** Policy for properties the schema does not describe. */
+  unknownProperties: UnknownPropertyPolicy;
+  /** Whether values are coerced to the types of their schema. */
+  coerceTypes: boolean;
+  /** Whether `$ref` markers are restored. */
+  preserveReferences: boolean;
+  /** Wire name of the discriminator field, if the entity declares one. */
+  discriminator?: string;
+};
+
+/**
+ * Schema cache keyed by entity class.
+ */
+let schemaCache = new WeakMap<Function, SchemaCacheEntry>();
+
+/**
+ * Settings of the entity classes, keyed by entity class.
+ */
+let configCache = new WeakMap<Function, EntityConfig>();
+
+/**
+ * Unknown properties kept by the `keep` policy, keyed by the prepared data
+ * of the entity they belong to.
+ */
+const overflowBags = new WeakMap<object, Record<string, any>>();
+
+/**
+ * Subtypes registered on entity classes that declare a discriminator, keyed
+ * by tag.
+ */
+const subtypeRegistry = new WeakMap<Function, Map<string, EntityClass>>();
+
+/**
+ * Tags of the registered subtypes, with the discriminator field of their base.
+ */
+const subtypeTags = new WeakMap<Function, { discriminator: string; tag: string }>();
+
+/**
+ * Entities created from prepared data that declared an `$id`, keyed by the
+ * data; `undefined` until the entity is created.
+ */
+const identifiedEntities = new WeakMap<object, SmartEntity<any> | undefined>();
+
+/**
+ * `$ref` markers left in prepared data, replaced by the entities they refer
+ * to once created.
+ */
+const referenceMarkers = new WeakSet<object>();
+
+/**
+ * Schemas of the fields bound to entity classes, which accept a `$ref` marker
+ * instead of the entity when references are preserved.
+ */
+const entitySchemas = new WeakSet<object>();
+
+/**
+ * Entity classes the fields of each entity class and its registered subtypes
+ * are bound to.
+ */
+let entityReferences = new WeakMap<Function, EntityClass[]>();
+
+/**
+ * `$id` of the schemas of recursive entity classes.
+ */
+const schemaIds = new WeakMap<Function, string>();
+
+/**
+ * `$id` given to a schema so far, kept unique across classes of the same name.
+ */
+const takenSchemaIds = new Set<string>();
+
+/**
+ * Plain object representations of the entities whose changes are tracked,
+ * taken when they were loaded or last marked clean. They are kept outside the
+ * entities, so they never reach `toJSON()` and fit frozen entities too.
+ */
+const snapshots = new WeakMap<object, { data: Record<string, any>; preserveReferences: boolean }>();
 
 /**
  * Abstract base class for creating smart entities with schema validation,
@@ -53,25 +530,157 @@ export type SchemaHint = BaseSchemaHint | ArraySchemaHint | ObjectSchemaHint;
  */
 export default abstract class SmartEntity<T> {
   /**
-   * Fields that can be masked during JSON serialization.
+   * Fields that can be masked during JSON serialization, or paths to the
+   * values to mask: `metadata.credentials.token`, `contacts[*].phone`,
+   * `tags[0]`, `metadata.*.token` (any key) or `**.token` (any depth).
+   * Merged with the fields declared by `@masked`.
    */
-  protected abstract _maskableFields: string[];
+  protected _maskableFields: string[] = [];
 
   /**
    * Fields that are required in the schema.
+   * Merged with the fields declared by `@required`.
    */
-  protected abstract _requiredFields: string[];
+  protected _requiredFields: string[] = [];
 
   /**
    * Schema hints for defining the structure of the entity.
+   * Merged with the hints declared by `@field`, `@nested` and `@arrayOf`.
+   */
+  protected _schemaHints: Record<string, SchemaHint> = {};
+
+  /**
+   * Masking strategies keyed by the entries of `_maskableFields`. Values
+   * without a strategy are masked with `*`, keeping their length.
+   */
+  protected _maskingStrategies: MaskingStrategies = {};
+
+  /**
+   * Named masking profiles (e.g., `logs`, `support-ui`), each overriding the
+   * masking strategies of some maskable fields.
+   */
+  protected _maskingProfiles: Record<string, MaskingStrategies> = {};
+
+  /**
+   * Named serialization groups (e.g., `public`), each listing the paths of
+   * the values `toObject({ group })` includes.
+   */
+  protected _groups: Record<string, string[]> = {};
+
+  /**
+   * Naming strategy of the fields on the wire. `fromJSON()` and `fromObject()`
+   * accept, and `toObject()` and `serialize()` emit, the converted names; the
+   * `alias` of a schema hint overrides it for one field. Paths given to
+   * masking, projection and groups keep using the property names.
+   */
+  protected _namingStrategy: NamingStrategy = 'camelCase';
+
+  /**
+   * Schema version of the entity, or `undefined` if it is not versioned.
+   * Payloads of older versions are migrated by `_migrations` before
+   * validation; payloads without a version stamp are of version 1.
+   */
+  protected _schemaVersion?: number;
+
+  /**
+   * Migrations keyed by the version they migrate from: the migration under
+   * `1` turns version 1 data into version 2 data.
+   */
+  protected _migrations: Record<number, Migration> = {};
+
+  /**
+   * Name of the wire field holding the schema version.
+   */
+  protected _versionField: string = '$version';
+
+  /**
+   * Whether `toObject()` and `serialize()` stamp the schema version. Payloads
+   * without a stamp are read as version 1, so only turn it off for output
+   * that is never read back. Internal round trips always stamp it.
+   */
+  protected _stampVersion: boolean = true;
+
+  /**
+   * Whether `toObject()` and `serialize()` write each entity once, with an
+   * `$id`, and a `$ref` marker wherever it appears again, and whether
+   * `fromJSON()` and `fromObject()` restore the references.
+   * Otherwise, converting an entity that holds itself throws a
+   * `CircularReferenceError`.
+   */
+  protected _preserveReferences: boolean = false;
+
+  /**
+   * Whether the instances returned by `fromJSON()`, `fromObject()`, `clone()`,
+   * `with()` and the patch methods are deep-frozen. Set by `@immutable`, which
+   * freezes the constructed instances as well.
+   */
+  protected _immutable: boolean = false;
+
+  /**
+   * Whether `fromJSON()` and `fromObject()` track the changes made to the
+   * entities they return, for `isDirty()` and `getChanges()`. Overridden per
+   * call by the `trackChanges` option.
    */
-  protected abstract _schemaHints: Record<string, SchemaHint>;
+  protected _trackChanges: boolean = true;
+
+  /**
+   * Policy for properties the schema does not describe. Overridden per call
+   * by the `unknownProperties` option of `fromJSON()` and `fromObject()`.
+   */
+  protected _unknownProperties: UnknownPropertyPolicy = 'reject';
+
+  /**
+   * Unknown properties kept by the `keep` policy, keyed by wire name.
+   */
+  protected _overflow: Record<string, any> = {};
+
+  /**
+   * Whether `fromJSON()` and `fromObject()` coerce values to the types of
+   * their schema, for data from query strings, CSV files or form posts.
+   * Overridden per call by the `coerceTypes` option.
+   */
+  protected _coerceTypes: boolean = false;
+
+  /**
+   * Custom validators, run after schema validation by `fromJSON()`,
+   * `fromObject()`, `validate()` and their asynchronous variants. Validators
+   * of nested entities run too, with their paths prefixed.
+   */
+  protected _validators: EntityValidator<T>[] = [];
+
+  /**
+   * Asynchronous custom validators, run after the synchronous ones by
+   * `fromJSONAsync()`, `fromObjectAsync()` and `validateAsync()` only.
+   */
+  protected _asyncValidators: AsyncEntityValidator<T>[] = [];
+
+  /**
+   * Field whose value tells the subtypes registered with `registerSubtype()`
+   * apart. `fromJSON()` and `fromObject()` of the entity return an instance
+   * of the subtype the value names, and its schema is a `oneOf` of the
+   * schemas of the subtypes.
+   */
+  protected _discriminator?: string;
 
   /**
    * Example instance of the entity.
    */
   static example: () => SmartEntity<any>;
 
+  /**
+   * Hook called for each unknown property under the `warn` policy. Defaults
+   * to `console.warn()`; assign it on a subclass to change it for that class.
+   */
+  static onUnknownProperty: (issue: ValidationIssue) => void = issue => {
+    console.warn(`Unknown property ignored: ${issue.path}`);
+  };
+
+  /**
+   * Hook called for each value coerced in coercion mode, to audit the
+   * coercions. Does nothing by default.
+   */
+  static onCoercion: (coercion: TypeCoercion) => void = () => undefined;
+
   /**
    * Safely parses a JSON string into an object.
    * 
@@ -107,172 +716,1911 @@ export default abstract class SmartEntity<T> {
 
   /**
    * Generates a JSON schema for the entity.
+   *
+   * The schema is generated once per class and group and cached; the
+   * returned object is shared and must not be modified. Entities that can
+   * hold themselves, directly or through other entities, are described by a
+   * `$ref` to their schema, given in `definitions`.
    * 
    * @template U The type of the entity.
+   * @param options The schema options.
    * @returns The JSON schema for the entity.
+   * @throws If the entity has no serialization group of the given name.
    */
-  static getJsonSchema<U>(): JSONSchemaType<U> {
-    const instance = new (this as any)();
-    const properties = this.buildProperties(instance._schemaHints);
+  static getJsonSchema<U>(options: JsonSchemaOptions = {}): JSONSchemaType<U> {
+    const entry = this.getSchemaCacheEntry();
+    if (options.group === undefined) return entry.document as JSONSchemaType<U>;
 
-    return {
-      type: 'object',
-      properties,
-      required: instance._requiredFields,
-      additionalProperties: false,
-    } as JSONSchemaType<U>;
+    let schema = entry.groupSchemas.get(options.group);
+    if (!schema) {
+      const instance = new (this as any)();
+      schema = this.addDefinitions(
+        this.buildJsonSchema(options.group, createCursors(instance.getGroup(options.group), undefined)),
+        true
+      );
+      entry.groupSchemas.set(options.group, schema);
+    }
+    return schema as JSONSchemaType<U>;
   }
 
   /**
-   * Builds the properties section of the JSON schema based on schema hints.
-   * 
-   * @param schemaHints The schema hints for the entity.
-   * @returns The properties section of the JSON schema.
+   * Clears the cached schemas, validators and entity settings.
+   *
+   * Must be called after the schema hints or the settings (e.g.,
+   * `_migrations`) of an entity class change. Since
+   * the schema of an entity embeds the schemas of its nested entities, the
+   * caches of all entity classes are cleared.
    */
-  private static buildProperties(schemaHints: Record<string, SchemaHint>): Record<string, any> {
-    const properties: Record<string, any> = {};
+  static clearSchemaCache(): void {
+    schemaCache = new WeakMap();
+    configCache = new WeakMap();
+    entityReferences = new WeakMap();
+  }
 
-    for (const key of Object.keys(schemaHints)) {
-      const hint = schemaHints[key];
-
-      if (hint.type === 'array' && 'items' in hint && hint.items) {
-        properties[key] = {
-          type: 'array',
-          items: 'schema' in hint.items
-            ? hint.items.schema
-            : {
-                type: hint.items.type,
-                nullable: hint.items.nullable ?? false,
-                minLength: hint.items.minLength,
-                maxLength: hint.items.maxLength,
-                minimum: hint.items.minimum,
-                maximum: hint.items.maximum,
-                pattern: hint.items.pattern,
-              },
-        };
-      } else if (hint.type === 'object' && 'schema' in hint && hint.schema) {
-        properties[key] = hint.schema;
-      } else {
-        properties[key] = {
-          type: hint.type,
-          nullable: hint.nullable ?? false,
-          minLength: hint.minLength,
-          maxLength: hint.maxLength,
-          minimum: hint.minimum,
-          maximum: hint.maximum,
-          pattern: hint.pattern,
-        };
-      }
+  /**
+   * Registers a subtype of the entity under a tag, the value its
+   * discriminator field has in the data of the subtype.
+   *
+   * Clears the schema cache, since the schema of the entity changes.
+   *
+   * @param tag The tag of the subtype.
+   * @param subtype The entity class of the subtype, extending the entity.
+   * @throws If the entity declares no discriminator, or the class does not extend it.
+   */
+  static registerSubtype(tag: string, subtype: EntityClass): void {
+    const discriminator: string | undefined = new (this as any)()._discriminator;
+    if (discriminator === undefined) {
+      throw new Error(`${this.name} declares no discriminator`);
+    }
+    if (!(subtype.prototype instanceof this)) {
+      throw new Error(`${subtype.name} does not extend ${this.name}`);
     }
 
-    return properties;
+    let subtypes = subtypeRegistry.get(this);
+    if (!subtypes) {
+      subtypes = new Map();
+      subtypeRegistry.set(this, subtypes);
+    }
+    subtypes.set(tag, subtype);
+    subtypeTags.set(subtype, { discriminator, tag });
+    SmartEntity.clearSchemaCache();
   }
 
   /**
-   * Creates an entity instance from a JSON string.
-   * 
-   * @template U The type of the entity.
-   * @param json The JSON string to parse.
-   * @returns The created entity instance.
-   * @throws If the JSON string is invalid or does not match the schema.
+   * Returns the settings of the entity, reading them from an instance the
+   * first time.
+   *
+   * @returns The settings of the entity.
    */
-  static fromJSON<U>(json: string): U {
-    const data = SmartEntity.safeJsonParse<U>(json);
-    if (!data) throw new Error(`Invalid JSON data: ${json}`);
-
-    const schema = this.getJsonSchema<U>();
-    const ajv = new Ajv();
-    const validate = ajv.compile(schema);
-
-    if (!validate(data)) {
-      const errors = validate.errors?.map(err => `${err.instancePath} ${err.message}`).join(', ');
-      throw new Error(`Validation failed: ${errors}`);
+  private static getEntityConfig(): EntityConfig {
+    let config = configCache.get(this);
+    if (!config) {
+      const instance = new (this as any)();
+      const { schemaHints } = instance.getFieldDefinitions();
+      config = {
+        schemaHints,
+        wireNames: new Map(Object.keys(schemaHints).map(key => [key, instance.getWireName(key, schemaHints[key])])),
+        schemaVersion: instance._schemaVersion,
+        migrations: instance._migrations || {},
+        versionField: instance._versionField,
+        unknownProperties: instance._unknownProperties ?? 'reject',
+        coerceTypes: instance._coerceTypes ?? false,
+        preserveReferences: instance._preserveReferences ?? false,
+        discriminator: instance._discriminator === undefined
+          ? undefined
+          : instance.getWireName(instance._discriminator, schemaHints[instance._discriminator]),
+      };
+      configCache.set(this, config);
     }
-
-    const instance = new (this as any)();
-    Object.assign(instance, data);
-    return instance as U;
+    return config;
   }
 
   /**
-   * Serializes the entity to a JSON string.
-   * 
-   * @param pretty Whether to format the JSON string with indentation.
-   * @param maskSensitive Whether to mask sensitive fields.
-   * @returns The serialized JSON string.
+   * Returns the registered subtype that data belongs to, following nested
+   * hierarchies.
+   *
+   * @param data The data.
+   * @returns The subtype, or the entity class itself if the data names none.
    */
-  toJSON(pretty: boolean = false, maskSensitive: boolean = false): string {
-    const jsonObject: Record<string, any> = {};
-
-    for (const key of Object.getOwnPropertyNames(this)) {
-      if (key.startsWith('_')) continue;
+  private static resolveSubtype(data: any): EntityClass {
+    const subtypes = subtypeRegistry.get(this);
+    if (!subtypes || data === null || typeof data !== 'object') return this as EntityClass;
 
-      const value = (this as any)[key];
-      jsonObject[key] = this.processValue(value, key, pretty, maskSensitive);
-    }
+    const subtype = subtypes.get(data[this.getEntityConfig().discriminator as string]);
 
-    return SmartEntity.safeJsonStringify(jsonObject, pretty);
+    return subtype ? subtype.resolveSubtype(data) : (this as EntityClass);
   }
 
   /**
-   * Processes a value for serialization, applying masking if necessary.
-   * 
-   * @param value The value to process.
-   * @param key The key of the value in the entity.
+   * Builds the JSON schema of an entity with registered subtypes: a `oneOf`
+   * of the schemas of the subtypes, told apart by the discriminator.
+   *
+   * @param subtypes The registered subtypes.
+   * @param group The serialization group the schema describes, if any.
+   * @param include The paths of the fields to describe, overriding the group.
+   * @returns The JSON schema.
+   */
+  private static buildSubtypesSchema(
+    subtypes: Map<string, EntityClass>,
+    group?: string,
+    include?: PathCursor[]
+  ): JSONSchemaType<any> {
+    const instance = new (this as any)();
+    const discriminator: string = instance._discriminator;
+    const { schemaHints } = instance.getFieldDefinitions();
+    const propertyName = instance.getWireName(discriminator, schemaHints[discriminator]);
+    this.getReferencedEntities(instance);
+
+    const oneOf = Array.from(subtypes.values(), subtype => {
+      if (subtype.isRecursive()) return { $ref: subtype.getSchemaId() };
+      if (include) return subtype.buildJsonSchema(group, include);
+      return subtype.getEmbeddedSchema(group);
+    });
+
+    return {
+      type: 'object',
+      discriminator: { propertyName },
+      required: [propertyName],
+      oneOf,
+    } as unknown as JSONSchemaType<any>;
+  }
+
+  /**
+   * Returns the cache entry of the entity class, creating it if needed.
+   *
+   * @returns The cache entry.
+   */
+  private static getSchemaCacheEntry(): SchemaCacheEntry {
+    let entry = schemaCache.get(this);
+    if (!entry) {
+      let schema = this.buildJsonSchema();
+      if (this.isRecursive()) schema = { $id: this.getSchemaId(), ...schema };
+      entry = { schema, document: schema, groupSchemas: new Map() };
+      // Cached first: the definitions of a recursive entity refer back to it.
+      schemaCache.set(this, entry);
+      entry.document = this.addDefinitions(schema, false);
+    }
+    return entry;
+  }
+
+  /**
+   * Returns the schema of the entity to embed in the schema of another one.
+   *
+   * @param group The serialization group applied if the entity declares it.
+   * @returns The schema, without `definitions`.
+   */
+  private static getEmbeddedSchema(group?: string): JSONSchemaType<any> {
+    if (group === undefined || !this.hasGroup(group)) return this.getSchemaCacheEntry().schema;
+
+    const document = this.getJsonSchema({ group }) as Record<string, any>;
+    if (!document.definitions) return document as JSONSchemaType<any>;
+
+    const schema = { ...document };
+    delete schema.definitions;
+    return schema as JSONSchemaType<any>;
+  }
+
+  /**
+   * Adds the schemas of the recursive entities a schema of the entity refers
+   * to as `definitions`, so that the schema is self-contained.
+   *
+   * @param schema The schema of the entity.
+   * @param self Whether the schema refers to the whole schema of the entity
+   *   itself, rather than being it.
+   * @returns The schema with its definitions, or the schema itself if it
+   *   refers to no recursive entity.
+   */
+  private static addDefinitions(schema: JSONSchemaType<any>, self: boolean): JSONSchemaType<any> {
+    const definitions = Array.from(this.getReachableEntities())
+      .filter(entity => (self || entity !== this) && entity.isRecursive())
+      .map(entity => [entity.getSchemaId().replace('smart-entity:', ''), entity.getSchemaCacheEntry().schema]);
+
+    return definitions.length > 0 ? { ...schema, definitions: Object.fromEntries(definitions) } : schema;
+  }
+
+  /**
+   * Returns the entity classes the fields of the entity and its registered
+   * subtypes are bound to, found once.
+   *
+   * @param instance An instance of the entity, if one is at hand.
+   * @returns The entity classes.
+   */
+  private static getReferencedEntities(instance?: SmartEntity<any>): EntityClass[] {
+    let referenced = entityReferences.get(this);
+    if (!referenced) {
+      const found = new Set<EntityClass>(subtypeRegistry.get(this)?.values());
+      const visitHint = (hint: SchemaHint | ArraySchemaHint['items']): void => {
+        if ('oneOf' in hint || 'anyOf' in hint) {
+          [...(hint.oneOf ?? []), ...(hint.anyOf ?? [])].forEach(visitHint);
+        } else if ('items' in hint) {
+          visitHint(hint.items);
+        } else if ('entity' in hint && hint.entity) {
+          found.add(hint.entity);
+        }
+      };
+
+      const { schemaHints } = (instance ?? new (this as any)()).getFieldDefinitions();
+      Object.values(schemaHints).forEach(hint => visitHint(hint as SchemaHint));
+      referenced = Array.from(found);
+      entityReferences.set(this, referenced);
+    }
+    return referenced;
+  }
+
+  /**
+   * Returns the entity classes reachable from the fields of the entity and
+   * of its registered subtypes, through any number of nested entities.
+   *
+   * @returns The entity classes.
+   */
+  private static getReachableEntities(): Set<EntityClass> {
+    const reachable = new Set<EntityClass>();
+    const visit = (entity: EntityClass): void => {
+      if (reachable.has(entity)) return;
+      reachable.add(entity);
+      entity.getReferencedEntities().forEach(visit);
+    };
+
+    this.getReferencedEntities().forEach(visit);
+    return reachable;
+  }
+
+  /**
+   * Returns whether the entity is reachable from its own fields, so that its
+   * schema is embedded by `$ref`.
+   *
+   * @returns Whether the entity is recursive.
+   */
+  private static isRecursive(): boolean {
+    return this.getReachableEntities().has(this as EntityClass);
+  }
+
+  /**
+   * Returns the compiled validator of the entity class, compiling it once.
+   *
+   * @param coerceTypes Whether the validator coerces values in place.
+   * @param references Whether the validator accepts `$ref` markers where
+   *   entities are expected.
+   * @returns The compiled validator.
+   */
+  private static getValidator(coerceTypes: boolean = false, references: boolean = false): ValidateFunction {
+    const entry = this.getSchemaCacheEntry();
+    const key = references
+      ? coerceTypes ? 'coercingReferenceValidator' : 'referenceValidator'
+      : coerceTypes ? 'coercingValidator' : 'validator';
+    let validator = entry[key];
+    if (!validator) {
+      const ajv = new Ajv({ allErrors: true, coerceTypes, discriminator: true });
+      addFormats(ajv);
+      validator = ajv.compile(references ? SmartEntity.acceptReferenceMarkers(entry.document) : entry.document);
+      entry[key] = validator;
+    }
+    return validator;
+  }
+
+  /**
+   * Copies a schema, letting the schemas of the fields bound to entity
+   * classes accept a `$ref` marker instead of the entity.
+   *
+   * @param schema The schema.
+   * @returns The copied schema.
+   */
+  private static acceptReferenceMarkers(schema: any): any {
+    if (schema === null || typeof schema !== 'object') return schema;
+    if (Array.isArray(schema)) return schema.map(item => SmartEntity.acceptReferenceMarkers(item));
+
+    const copy = Object.fromEntries(
+      Object.entries(schema).map(([key, value]) => [key, SmartEntity.acceptReferenceMarkers(value)])
+    );
+    if (!entitySchemas.has(schema)) return copy;
+
+    return {
+      if: { type: 'object', required: ['$ref'] },
+      then: { type: 'object', properties: { $ref: { type: 'string' } }, required: ['$ref'], additionalProperties: false },
+      else: copy,
+    };
+  }
+
+  /**
+   * Returns the `$id` of the whole schema of the entity, created once.
+   *
+   * @returns The `$id`.
+   */
+  private static getSchemaId(): string {
+    let id = schemaIds.get(this);
+    if (!id) {
+      id = `smart-entity:${this.name}`;
+      for (let suffix = 2; takenSchemaIds.has(id); suffix++) id = `smart-entity:${this.name}-${suffix}`;
+      takenSchemaIds.add(id);
+      schemaIds.set(this, id);
+    }
+    return id;
+  }
+
+  /**
+   * Builds the JSON schema for the entity from its schema hints.
+   *
+   * @param group The serialization group the schema describes, if any. It
+   *   applies to the entity only if the entity declares it.
+   * @param include The paths of the fields to describe, overriding the group.
+   * @returns The JSON schema for the entity.
+   */
+  private static buildJsonSchema(group?: string, include?: PathCursor[]): JSONSchemaType<any> {
+    const subtypes = subtypeRegistry.get(this);
+    if (subtypes && subtypes.size > 0) return this.buildSubtypesSchema(subtypes, group, include);
+
+    const instance = new (this as any)();
+    const { schemaHints, requiredFields } = instance.getFieldDefinitions();
+    this.getReferencedEntities(instance);
+    const cursors = include ??
+      (group !== undefined && instance.hasOwnGroup(group) ? createCursors(instance.getGroup(group), undefined) : undefined);
+    const properties: Record<string, any> = {};
+    const included = new Set<string>();
+
+    for (const key of Object.keys(schemaHints)) {
+      const fieldInclude = cursors && stepCursors(cursors, key);
+      if (fieldInclude && fieldInclude.length === 0) continue;
+
+      included.add(key);
+      const hint: SchemaHint = schemaHints[key];
+      const schema = this.buildPropertySchema(
+        hint,
+        group,
+        fieldInclude && !findMatched(fieldInclude) ? fieldInclude : undefined
+      );
+      properties[instance.getWireName(key, hint)] = hint.default === undefined ? schema : { ...schema, default: hint.default };
+    }
+
+    if (instance._schemaVersion !== undefined) {
+      properties[instance._versionField] = { type: 'integer', const: instance._schemaVersion };
+    }
+
+    const required = requiredFields
+      .filter((key: string) => !cursors || included.has(key))
+      .map((key: string) => instance.getWireName(key, schemaHints[key]));
+
+    const subtype = subtypeTags.get(this);
+    if (subtype) {
+      const propertyName = instance.getWireName(subtype.discriminator, schemaHints[subtype.discriminator]);
+      properties[propertyName] = { ...(properties[propertyName] ?? { type: 'string' }), const: subtype.tag };
+      if (!required.includes(propertyName)) required.push(propertyName);
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required,
+      additionalProperties: false,
+    } as JSONSchemaType<any>;
+  }
+
+  /**
+   * Returns whether the entity declares a serialization group.
+   *
+   * @param group The name of the serialization group.
+   * @returns Whether the group exists.
+   */
+  private static hasGroup(group: string): boolean {
+    return new (this as any)().hasOwnGroup(group);
+  }
+
+  /**
+   * Builds the JSON schema of a field from its schema hint.
+   * 
+   * @param hint The schema hint of the field.
+   * @param group The serialization group applied to nested entities, if any.
+   * @param include The paths of the values to describe within the field, if
+   *   only some of them are.
+   * @returns The JSON schema of the field.
+   */
+  private static buildPropertySchema(hint: SchemaHint, group?: string, include?: PathCursor[]): Record<string, any> {
+    if (hint.type === undefined) return this.buildUnionSchema(hint, group);
+
+    if (hint.type === 'array' && 'items' in hint && hint.items) {
+      const items = hint.items;
+      const itemsInclude = include && stepCursors(include, null);
+      const narrowed = itemsInclude && !findMatched(itemsInclude) ? itemsInclude : undefined;
+
+      return {
+        type: 'array',
+        minItems: hint.minItems,
+        maxItems: hint.maxItems,
+        uniqueItems: hint.uniqueItems,
+        items: 'entity' in items && items.entity
+          ? this.buildEntitySchema(items, group, narrowed)
+          : 'schema' in items
+          ? narrowed && items.schema ? projectSchema(items.schema, narrowed) : items.schema
+          : this.buildPropertySchema(items, group),
+      };
+    }
+    if (hint.type === 'object' && 'entity' in hint && hint.entity) {
+      return this.buildEntitySchema(hint, group, include);
+    }
+    if (hint.type === 'object' && 'schema' in hint && hint.schema) {
+      return include ? projectSchema(hint.schema, include) : hint.schema;
+    }
+    return this.buildFieldSchema(hint);
+  }
+
+  /**
+   * Builds the JSON schema of a field described by a base schema hint.
+   *
+   * @param hint The schema hint of the field.
+   * @returns The JSON schema of the field.
+   */
+  private static buildFieldSchema(hint: BaseSchemaHint): Record<string, any> {
+    const codec = getCodec(hint.type);
+    if (codec) {
+      return hint.nullable ? { ...codec.schema, nullable: true } : codec.schema;
+    }
+
+    return {
+      type: hint.type,
+      nullable: hint.nullable ?? false,
+      minLength: hint.minLength,
+      maxLength: hint.maxLength,
+      minimum: hint.minimum,
+      maximum: hint.maximum,
+      exclusiveMinimum: hint.exclusiveMinimum,
+      exclusiveMaximum: hint.exclusiveMaximum,
+      multipleOf: hint.multipleOf,
+      pattern: hint.pattern,
+      format: hint.format,
+      ...SmartEntity.buildChoices(hint),
+      minItems: hint.minItems,
+      maxItems: hint.maxItems,
+      uniqueItems: hint.uniqueItems,
+    };
+  }
+
+  /**
+   * Builds the JSON schema of a polymorphic field.
+   *
+   * Since `nullable` needs a `type`, a nullable field gets a `null` branch
+   * instead.
+   *
+   * @param hint The union schema hint of the field.
+   * @param group The serialization group applied to nested entities, if any.
+   * @returns The JSON schema of the field.
+   */
+  private static buildUnionSchema(hint: UnionSchemaHint, group?: string): Record<string, any> {
+    const buildBranches = (branches?: SchemaHint[]): Record<string, any>[] | undefined =>
+      branches && [
+        ...branches.map(branch => this.buildPropertySchema(branch, group)),
+        ...(hint.nullable ? [{ type: 'null' }] : []),
+      ];
+
+    return {
+      oneOf: buildBranches(hint.oneOf),
+      anyOf: buildBranches(hint.anyOf),
+      ...SmartEntity.buildChoices(hint),
+    };
+  }
+
+  /**
+   * Builds the `enum` and `const` keywords of a field. Since `nullable` lets
+   * `null` through `type` only, a nullable field adds `null` to the allowed
+   * values, turning `const` into an `enum`.
+   *
+   * @param hint The schema hint of the field.
+   * @returns The `enum` and `const` keywords.
+   */
+  private static buildChoices(hint: Pick<BaseSchemaHint, 'nullable' | 'enum' | 'const'>): Record<string, any> {
+    const choices = hint.const !== undefined ? [hint.const] : hint.enum;
+    if (!hint.nullable || !choices || choices.includes(null)) return { enum: hint.enum, const: hint.const };
+
+    return { enum: [...choices, null], const: undefined };
+  }
+
+  /**
+   * Builds the JSON schema of a field bound to an entity class.
+   *
+   * @param hint The object schema hint referring to the entity class.
+   * @param group The serialization group applied if the entity declares it.
+   * @param include The paths of the fields to describe, if only some are.
+   * @returns The JSON schema of the nested entity. A `oneOf`, a `$ref` and a
+   *   schema with an `$id` are wrapped instead of made nullable. The schema
+   *   is always a new object, so that it identifies an entity field.
+   */
+  private static buildEntitySchema(hint: ObjectSchemaHint, group?: string, include?: PathCursor[]): Record<string, any> {
+    const entity = hint.entity!;
+    let schema: Record<string, any>;
+    if (hint.schema) {
+      schema = include ? projectSchema(hint.schema, include) : hint.schema;
+    } else if (entity.isRecursive()) {
+      schema = { $ref: entity.getSchemaId() };
+    } else if (include) {
+      schema = entity.buildJsonSchema(group, include);
+    } else {
+      schema = entity.getEmbeddedSchema(group);
+    }
+
+    const built = schema.oneOf || schema.$ref || schema.$id
+      ? hint.nullable ? { anyOf: [{ type: 'null' }, schema] } : { ...schema }
+      : { ...schema, nullable: hint.nullable ?? false };
+    entitySchemas.add(built);
+    return built;
+  }
+
+  /**
+   * Creates an entity instance from a plain object.
+   *
+   * @template U The type of the entity.
+   * @param data The data to validate and copy into the instance.
+   * @param options The creation options.
+   * @returns The created entity instance.
+   * @throws {EntityValidationError} If the data does not match the schema, or
+   *   a custom validator reports a problem.
+   */
+  static fromObject<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    data: Record<string, any>,
+    options: FromObjectOptions = {}
+  ): U {
+    const result = this.safeFromObject<U>(data, options);
+    if (!result.success) throw new EntityValidationError(result.errors);
+
+    return result.value;
+  }
+
+  /**
+   * Creates an entity instance from a plain object without throwing.
+   *
+   * @template U The type of the entity.
+   * @param data The data to validate and copy into the instance.
+   * @param options The creation options.
+   * @returns The created entity instance, or the validation problems.
+   */
+  static safeFromObject<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    data: Record<string, any>,
+    options: FromObjectOptions = {}
+  ): ValidationResult<U> {
+    const result = this.createFromObject<U>(data, options);
+    if (result.success) {
+      SmartEntity.trackChanges(result.value, options);
+      SmartEntity.freezeImmutables(result.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates an entity instance from a plain object without throwing or
+   * freezing it, so that it can still be completed.
+   *
+   * @template U The type of the entity.
+   * @param data The data to validate and copy into the instance.
+   * @param options The creation options.
+   * @returns The created entity instance, or the validation problems.
+   */
+  private static createFromObject<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    data: Record<string, any>,
+    options: FromObjectOptions = {}
+  ): ValidationResult<U> {
+    const { data: migrated, errors, references } = this.prepareData(data, options);
+    if (errors.length > 0) return { success: false, value: undefined, errors };
+
+    const instance = this.hydrate<U>(migrated);
+    const referenceIssues = references ? SmartEntity.resolveReferences(instance, references) : [];
+    if (referenceIssues.length > 0) return { success: false, value: undefined, errors: referenceIssues };
+
+    const issues = instance.runValidators();
+    if (issues.length > 0) return { success: false, value: undefined, errors: issues };
+
+    return { success: true, value: instance, errors };
+  }
+
+  /**
+   * Creates an entity instance from a plain object, running the asynchronous
+   * custom validators as well.
+   *
+   * @template U The type of the entity.
+   * @param data The data to validate and copy into the instance.
+   * @param options The creation options.
+   * @returns The created entity instance.
+   * @throws {EntityValidationError} If the data does not match the schema, or
+   *   a custom validator reports a problem.
+   */
+  static async fromObjectAsync<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    data: Record<string, any>,
+    options: FromObjectOptions = {}
+  ): Promise<U> {
+    const result = await this.safeFromObjectAsync<U>(data, options);
+    if (!result.success) throw new EntityValidationError(result.errors);
+
+    return result.value;
+  }
+
+  /**
+   * Creates an entity instance from a plain object without throwing, running
+   * the asynchronous custom validators as well.
+   *
+   * @template U The type of the entity.
+   * @param data The data to validate and copy into the instance.
+   * @param options The creation options.
+   * @returns The created entity instance, or the validation problems.
+   */
+  static async safeFromObjectAsync<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    data: Record<string, any>,
+    options: FromObjectOptions = {}
+  ): Promise<ValidationResult<U>> {
+    const { data: migrated, errors, references } = this.prepareData(data, options);
+    if (errors.length > 0) return { success: false, value: undefined, errors };
+
+    const instance = this.hydrate<U>(migrated);
+    const referenceIssues = references ? SmartEntity.resolveReferences(instance, references) : [];
+    if (referenceIssues.length > 0) return { success: false, value: undefined, errors: referenceIssues };
+
+    const issues = instance.runValidators();
+    if (issues.length > 0) return { success: false, value: undefined, errors: issues };
+
+    const asyncIssues = await instance.runAsyncValidators();
+    if (asyncIssues.length > 0) return { success: false, value: undefined, errors: asyncIssues };
+
+    SmartEntity.trackChanges(instance, options);
+    SmartEntity.freezeImmutables(instance);
+    return { success: true, value: instance, errors };
+  }
+
+  /**
+   * Creates an entity instance from a JSON string.
+   * 
+   * @template U The type of the entity.
+   * @param json The JSON string to parse.
+   * @param options The creation options.
+   * @returns The created entity instance.
+   * @throws If the JSON string is invalid.
+   * @throws {EntityValidationError} If the data does not match the schema, or
+   *   a custom validator reports a problem.
+   */
+  static fromJSON<U extends SmartEntity<any>>(this: EntityClass<U>, json: string, options: FromObjectOptions = {}): U {
+    const data = SmartEntity.safeJsonParse<Record<string, any>>(json);
+    if (!data) throw new Error(`Invalid JSON data: ${json}`);
+
+    return this.fromObject<U>(data, options);
+  }
+
+  /**
+   * Creates an entity instance from a JSON string, running the asynchronous
+   * custom validators as well.
+   *
+   * @template U The type of the entity.
+   * @param json The JSON string to parse.
+   * @param options The creation options.
+   * @returns The created entity instance.
+   * @throws If the JSON string is invalid.
+   * @throws {EntityValidationError} If the data does not match the schema, or
+   *   a custom validator reports a problem.
+   */
+  static async fromJSONAsync<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    json: string,
+    options: FromObjectOptions = {}
+  ): Promise<U> {
+    const data = SmartEntity.safeJsonParse<Record<string, any>>(json);
+    if (!data) throw new Error(`Invalid JSON data: ${json}`);
+
+    return this.fromObjectAsync<U>(data, options);
+  }
+
+  /**
+   * Creates an entity instance from a JSON string without throwing.
+   *
+   * @template U The type of the entity.
+   * @param json The JSON string to parse.
+   * @param options The creation options.
+   * @returns The created entity instance, or the validation problems.
+   */
+  static safeFromJSON<U extends SmartEntity<any>>(
+    this: EntityClass<U>,
+    json: string,
+    options: FromObjectOptions = {}
+  ): ValidationResult<U> {
+    const data = SmartEntity.safeJsonParse<Record<string, any>>(json);
+    if (!data) {
+      return {
+        success: false,
+        value: undefined,
+        errors: [{ path: '', keyword: 'json', message: 'must be valid JSON', params: {} }],
+      };
+    }
+
+    return this.safeFromObject<U>(data, options);
+  }
+
+  /**
+   * Migrates data to the current schema version, applies the unknown
+   * property policies and the defaults, then validates it.
+   *
+   * In coercion mode, the data is copied first since Ajv coerces values in
+   * place, and the coercions are found by comparing the data before and
+   * after validation.
+   *
+   * When references are preserved, the schema accepts a `$ref` marker
+   * wherever an entity is expected; the entity it refers to is validated
+   * where it is written.
+   *
+   * @param data The data to prepare.
+   * @param options The creation options.
+   * @returns The prepared data, the migration or validation problems, and
+   *   the references met when they are preserved.
+   */
+  private static prepareData(
+    data: Record<string, any>,
+    options: FromObjectOptions
+  ): { data: Record<string, any>; errors: ValidationIssue[]; references?: ReferenceState } {
+    const config = this.getEntityConfig();
+    const coerceTypes = options.coerceTypes ?? config.coerceTypes;
+    const references: ReferenceState | undefined = options.preserveReferences ?? config.preserveReferences
+      ? { ids: new Map(), markers: new Map() }
+      : undefined;
+    const errors: ValidationIssue[] = [];
+    const prepared = this.prepareEntityData(
+      coerceTypes ? SmartEntity.hydrateValue(data) : data,
+      '',
+      options,
+      errors,
+      references
+    );
+    if (errors.length > 0) return { data: prepared, errors, references };
+
+    const before = coerceTypes ? SmartEntity.hydrateValue(prepared) : undefined;
+    const validationErrors = this.validateData(prepared, coerceTypes, references !== undefined);
+    if (coerceTypes) {
+      const onCoercion = options.onCoercion ?? this.onCoercion;
+      for (const change of diffJson(before, prepared)) {
+        if (change.type === 'changed') onCoercion({ path: change.path, from: change.from, to: change.to });
+      }
+    }
+
+    return { data: prepared, errors: validationErrors, references };
+  }
+
+  /**
+   * Migrates data of the entity and of its nested entities to their current
+   * schema versions, removing the version stamps, then strips or keeps aside
+   * the unknown properties according to the policy of each entity.
+   *
+   * @param data The data to prepare. It is not modified.
+   * @param path The JSON Pointer of the data, for validation problems.
+   * @param options The creation options.
+   * @param errors Collects the problems that prevent migrating the data.
+   * @param references Collects the `$id` and the `$ref` markers met, if
+   *   references are preserved.
+   * @returns The prepared data.
+   */
+  private static prepareEntityData(
+    data: any,
+    path: string,
+    options: FromObjectOptions,
+    errors: ValidationIssue[],
+    references?: ReferenceState
+  ): any {
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) return data;
+
+    if (references && typeof data.$ref === 'string') {
+      const marker = { $ref: data.$ref };
+      references.markers.set(marker, { id: data.$ref, path, entity: this as EntityClass });
+      referenceMarkers.add(marker);
+      return marker;
+    }
+
+    const subtype = this.resolveSubtype(data);
+    if (subtype !== this) return subtype.prepareEntityData(data, path, options, errors, references);
+
+    const { schemaHints, wireNames, schemaVersion: current, migrations, versionField, unknownProperties } =
+      this.getEntityConfig();
+    let migrated: Record<string, any> = { ...data };
+
+    const id = references ? migrated.$id : undefined;
+    if (references) delete migrated.$id;
+
+    if (current !== undefined) {
+      const version = migrated[versionField] ?? 1;
+      const issue = (message: string): void => {
+        errors.push({ path: `${path}/${versionField}`, keyword: 'version', message, params: { version, schemaVersion: current } });
+      };
+      delete migrated[versionField];
+
+      if (!Number.isInteger(version) || version < 1) {
+        issue('must be a positive integer');
+        return migrated;
+      }
+      if (version > current) {
+        issue(`must not be newer than schema version ${current}`);
+        return migrated;
+      }
+      for (let from = version; from < current; from++) {
+        const migration: Migration | undefined = migrations[from];
+        if (!migration) {
+          issue(`has no migration from version ${from}`);
+          return migrated;
+        }
+        migrated = migration(migrated);
+      }
+    }
+
+    if (references && id !== undefined) {
+      if (references.ids.has(String(id))) {
+        errors.push({ path: `${path}/$id`, keyword: 'reference', message: 'must be unique', params: { id } });
+      }
+      references.ids.set(String(id), migrated);
+      identifiedEntities.set(migrated, undefined);
+    }
+
+    const knownNames = new Set<string>();
+    for (const key of Object.keys(schemaHints)) {
+      const hint: SchemaHint = schemaHints[key];
+      const wireName = wireNames.get(key) as string;
+      knownNames.add(wireName);
+
+      if (migrated[wireName] === undefined && hint.default !== undefined) {
+        migrated[wireName] = SmartEntity.hydrateValue(hint.default);
+      }
+      const value = migrated[wireName];
+      if (value === undefined || value === null) continue;
+
+      if (hint.type === 'object' && 'entity' in hint && hint.entity) {
+        migrated[wireName] = hint.entity.prepareEntityData(value, `${path}/${wireName}`, options, errors, references);
+      } else if (hint.type === 'array' && 'items' in hint && 'entity' in hint.items && hint.items.entity && Array.isArray(value)) {
+        const entity = hint.items.entity;
+        migrated[wireName] = value.map((item, index) =>
+          entity.prepareEntityData(item, `${path}/${wireName}/${index}`, options, errors, references)
+        );
+      }
+    }
+
+    const policy: UnknownPropertyPolicy = options.unknownProperties ?? unknownProperties;
+    if (policy === 'reject') return migrated;
+
+    const overflow: Record<string, any> = {};
+    for (const name of Object.keys(migrated)) {
+      if (knownNames.has(name)) continue;
+
+      if (policy === 'keep') {
+        overflow[name] = migrated[name];
+      } else if (policy === 'warn') {
+        (options.onUnknownProperty ?? this.onUnknownProperty)({
+          path: `${path}/${name}`,
+          keyword: 'additionalProperties',
+          message: 'must NOT have additional properties',
+          params: { additionalProperty: name },
+        });
+      }
+      delete migrated[name];
+    }
+    if (Object.keys(overflow).length > 0) overflowBags.set(migrated, overflow);
+
+    return migrated;
+  }
+
+  /**
+   * Validates data against the JSON schema of the entity.
+   *
+   * @param data The data to validate.
+   * @param coerceTypes Whether to coerce values in place to the types of their schema.
+   * @param references Whether to accept `$ref` markers where entities are
+   *   expected. The `if` problems of those fields are dropped, since the
+   *   problems of the entity come along with them.
+   * @returns The validation problems, or an empty array if the data is valid.
+   */
+  private static validateData(data: unknown, coerceTypes: boolean = false, references: boolean = false): ValidationIssue[] {
+    const validate = this.getValidator(coerceTypes, references);
+
+    if (validate(data)) return [];
+
+    return (validate.errors ?? [])
+      .filter(error => !references || error.keyword !== 'if')
+      .map(SmartEntity.toValidationIssue);
+  }
+
+  /**
+   * Converts an Ajv error into a validation issue.
+   *
+   * Errors raised on an object for a missing or unexpected property, or for
+   * an invalid discriminator tag, point to that property, so that the path
+   * always identifies the offending field.
+   *
+   * @param error The Ajv error.
+   * @returns The validation issue.
+   */
+  private static toValidationIssue(error: ErrorObject): ValidationIssue {
+    const property =
+      error.params.missingProperty ??
+      error.params.additionalProperty ??
+      (error.keyword === 'discriminator' ? error.params.tag : undefined);
+
+    return {
+      path: property !== undefined ? `${error.instancePath}/${property}` : error.instancePath,
+      keyword: error.keyword,
+      message: error.message ?? '',
+      params: { ...error.params },
+    };
+  }
+
+  /**
+   * Creates an entity instance from validated data, turning fields bound to
+   * entity classes into instances of those classes. Arrays and plain objects
+   * are copied, so the instance never shares them with `data`.
+   *
+   * @template U The type of the entity.
+   * @param data The validated data.
+   * @returns The created entity instance.
+   */
+  protected static hydrate<U>(data: Record<string, any>): U {
+    const subtype = this.resolveSubtype(data);
+    if (subtype !== this) return subtype.hydrate<U>(data);
+
+    const instance = constructUnfrozen(() => new (this as any)());
+    const { schemaHints } = instance.getFieldDefinitions();
+    const propertyNames = instance.getPropertyNames(schemaHints);
+
+    for (const wireName of Object.keys(data)) {
+      const key = propertyNames.get(wireName) ?? wireName;
+      instance[key] = SmartEntity.hydrateValue(data[wireName], schemaHints[key]);
+    }
+
+    const overflow = overflowBags.get(data);
+    if (overflow) instance._overflow = SmartEntity.hydrateValue(overflow);
+    if (identifiedEntities.has(data)) identifiedEntities.set(data, instance);
+
+    return instance as U;
+  }
+
+  /**
+   * Replaces the `$ref` markers held by the fields of the entities created
+   * from prepared data with the entities they refer to.
+   *
+   * @param root The entity created from the prepared data.
+   * @param references The references met while preparing the data.
+   * @returns The problems of the markers that refer to no entity, or to an
+   *   entity of another class.
+   */
+  private static resolveReferences(root: SmartEntity<any>, references: ReferenceState): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const resolve = (value: any): any => {
+      const marker = referenceMarkers.has(value) ? references.markers.get(value) : undefined;
+      if (!marker) return value;
+
+      const data = references.ids.get(marker.id);
+      const entity = data && identifiedEntities.get(data);
+      const issue = (message: string): void => {
+        issues.push({ path: marker.path, keyword: 'reference', message, params: { id: marker.id } });
+      };
+      if (!entity) {
+        issue(`must refer to an entity with $id ${marker.id}`);
+      } else if (!(entity instanceof marker.entity)) {
+        issue(`must refer to an instance of ${marker.entity.name}`);
+      }
+      return entity ?? value;
+    };
+
+    SmartEntity.visitEntities(root, '', entity => {
+      for (const key of Object.getOwnPropertyNames(entity)) {
+        if (key.startsWith('_')) continue;
+
+        const value = (entity as any)[key];
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => (value[index] = resolve(item)));
+        } else {
+          (entity as any)[key] = resolve(value);
+        }
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Rehydrates a field value according to its schema hint.
+   *
+   * @param value The value to rehydrate.
+   * @param hint The schema hint of the field.
+   * @returns The rehydrated value.
+   */
+  private static hydrateValue(value: any, hint?: SchemaHint): any {
+    if (value === null || value === undefined) return value;
+
+    const codec = hint && getCodec(hint.type);
+    if (codec) return codec.decode(value);
+
+    if (typeof value !== 'object') return value;
+
+    if (hint && hint.type === 'object' && 'entity' in hint && hint.entity) {
+      return referenceMarkers.has(value) ? value : hint.entity.hydrate(value);
+    }
+
+    if (Array.isArray(value)) {
+      const items = hint && hint.type === 'array' && 'items' in hint ? hint.items : undefined;
+      return value.map(item =>
+        SmartEntity.hydrateValue(item, items && 'type' in items ? items : undefined)
+      );
+    }
+
+    const copy: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      copy[key] = SmartEntity.hydrateValue(value[key]);
+    }
+    return copy;
+  }
+
+  /**
+   * Converts the entity to a plain object.
+   *
+   * Fields prefixed with `_` and fields whose value is `undefined` are
+   * omitted, so the result matches the parsed output of `serialize()`.
+   *
+   * @param options The conversion options.
+   * @returns The plain object.
+   */
+  toObject(options: ToObjectOptions = {}): Record<string, any> {
+    if (options.group !== undefined && options.include === undefined) this.getGroup(options.group);
+
+    return this.buildObject(SmartEntity.createContext(options));
+  }
+
+  /**
+   * Converts the entity to the plain object that internal round trips
+   * (patches, validation) rebuild an entity from. The properties
+   * kept by the `keep` policy are left out, so that the policy of the class
+   * does not apply to them again; `copyOverflow()` carries them over. The
+   * schema version is always stamped, so that the data is not migrated again.
+   *
+   * @returns The plain object.
+   */
+  private toData(): Record<string, any> {
+    return this.buildObject({ ...SmartEntity.createContext({ stampVersion: true }), overflow: false });
+  }
+
+  /**
+   * Converts the entity like `toData()`, without throwing.
+   *
+   * @returns The plain object, or a `circular` problem at the field closing
+   *   the cycle if the entity encloses itself.
+   */
+  private safeToData(): ValidationResult<Record<string, any>> {
+    try {
+      return { success: true, value: this.toData(), errors: [] };
+    } catch (error) {
+      if (!(error instanceof CircularReferenceError)) throw error;
+      return {
+        success: false,
+        value: undefined,
+        errors: [{ path: error.path, keyword: 'circular', message: 'must not enclose itself', params: {} }],
+      };
+    }
+  }
+
+  /**
+   * Creates the initial conversion state from the conversion options.
+   *
+   * @param options The conversion options.
+   * @returns The conversion state.
+   */
+  private static createContext(options: ToObjectOptions): ObjectContext {
+    return {
+      mask: options.mask ?? false,
+      maskPaths: [],
+      include: options.include && createCursors(options.include, undefined),
+      exclude: createCursors(options.exclude ?? [], undefined),
+      group: options.group,
+      overflow: true,
+      stampVersion: options.stampVersion,
+      path: '',
+      ancestors: new Set(),
+      preserveReferences: options.preserveReferences,
+      ids: new Map(),
+    };
+  }
+
+  /**
+   * Builds the plain object representation of the entity.
+   *
+   * @param context The conversion state, advanced up to the entity.
+   * @returns The plain object.
+   * @throws {CircularReferenceError} If the entity encloses itself and
+   *   references are not preserved.
+   */
+  private buildObject(context: ObjectContext): Record<string, any> {
+    if (context.ancestors.has(this)) throw new CircularReferenceError(context.path);
+
+    const { schemaHints, maskableFields } = this.getFieldDefinitions();
+    const stampVersion = context.stampVersion ?? (this._schemaVersion !== undefined ? this._stampVersion : undefined);
+    const preserveReferences = context.preserveReferences ?? this._preserveReferences ?? false;
+    const entityContext: ObjectContext = {
+      ...context,
+      stampVersion,
+      preserveReferences,
+      maskPaths: context.mask === false
+        ? []
+        : [...context.maskPaths, ...createCursors(maskableFields, this as SmartEntity<any>)],
+      include: context.include === undefined && context.group !== undefined && this.hasOwnGroup(context.group)
+        ? createCursors(this.getGroup(context.group), undefined)
+        : context.include,
+    };
+    const plainObject: Record<string, any> = {};
+    if (preserveReferences) {
+      plainObject.$id = String(context.ids.size + 1);
+      context.ids.set(this as SmartEntity<any>, plainObject.$id);
+    }
+    if (this._schemaVersion !== undefined && stampVersion) {
+      plainObject[this._versionField] = this._schemaVersion;
+    }
+
+    const subtype = subtypeTags.get(this.constructor);
+    if (subtype && (this as any)[subtype.discriminator] === undefined) {
+      plainObject[this.getWireName(subtype.discriminator, schemaHints[subtype.discriminator])] = subtype.tag;
+    }
+
+    context.ancestors.add(this);
+    for (const key of Object.getOwnPropertyNames(this)) {
+      if (key.startsWith('_')) continue;
+
+      const value = (this as any)[key];
+      if (value === undefined) continue;
+
+      const wireName = this.getWireName(key, schemaHints[key]);
+      const fieldContext = SmartEntity.stepContext(entityContext, key, wireName);
+      if (!fieldContext) continue;
+
+      const encoded = SmartEntity.encodeValue(value, schemaHints[key]);
+      plainObject[wireName] = this.processValue(encoded, fieldContext);
+    }
+
+    if (context.overflow) {
+      const overflow = this._overflow || {};
+      for (const name of Object.keys(overflow)) {
+        const fieldContext = SmartEntity.stepContext(entityContext, name);
+        if (fieldContext && !(name in plainObject)) plainObject[name] = this.processValue(overflow[name], fieldContext);
+      }
+    }
+    context.ancestors.delete(this);
+
+    return plainObject;
+  }
+
+  /**
+   * Advances the conversion state past an object key or array index.
+   *
+   * @param context The conversion state of the enclosing value.
+   * @param segment The object key or array index.
+   * @param wireName The name of the key on the wire, if it differs.
+   * @returns The conversion state of the value, or `undefined` if the value
+   *   is left out by the include or exclude paths.
+   */
+  private static stepContext(
+    context: ObjectContext,
+    segment: string | number,
+    wireName: string | number = segment
+  ): ObjectContext | undefined {
+    const include = context.include && stepCursors(context.include, segment);
+    if (include && include.length === 0) return undefined;
+
+    const exclude = stepCursors(context.exclude, segment);
+    if (findMatched(exclude)) return undefined;
+
+    const maskPaths = stepCursors(context.maskPaths, segment);
+    return {
+      ...context,
+      maskPaths,
+      maskedBy: context.maskedBy ?? findMatched(maskPaths),
+      include: include && findMatched(include) ? undefined : include,
+      exclude,
+      path: `${context.path}/${wireName}`,
+    };
+  }
+
+  /**
+   * Returns the name of a field on the wire.
+   *
+   * @param key The property name of the field.
+   * @param hint The schema hint of the field.
+   * @returns The alias of the field, or its name converted by the naming strategy.
+   */
+  private getWireName(key: string, hint?: SchemaHint): string {
+    return hint?.alias ?? convertName(key, this._namingStrategy || 'camelCase');
+  }
+
+  /**
+   * Returns the property names of the fields of the entity, keyed by their
+   * names on the wire.
+   *
+   * @param schemaHints The schema hints of the entity.
+   * @returns The property names keyed by wire name.
+   */
+  private getPropertyNames(schemaHints: Record<string, SchemaHint>): Map<string, string> {
+    const propertyNames = new Map<string, string>();
+    const keys = new Set([...Object.getOwnPropertyNames(this), ...Object.keys(schemaHints)]);
+
+    for (const key of keys) {
+      if (!key.startsWith('_')) propertyNames.set(this.getWireName(key, schemaHints[key]), key);
+    }
+    return propertyNames;
+  }
+
+  /**
+   * Returns whether the entity declares a serialization group.
+   *
+   * @param group The name of the serialization group.
+   * @returns Whether the group exists.
+   */
+  private hasOwnGroup(group: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this._groups || {}, group);
+  }
+
+  /**
+   * Returns the paths listed by a serialization group.
+   *
+   * @param group The name of the serialization group.
+   * @returns The paths of the values the group includes.
+   * @throws If the entity has no serialization group of the given name.
+   */
+  private getGroup(group: string): string[] {
+    if (!this.hasOwnGroup(group)) {
+      throw new Error(`Unknown serialization group for ${this.constructor.name}: ${group}`);
+    }
+    return this._groups[group];
+  }
+
+  /**
+   * Encodes a field value whose schema hint refers to a codec.
+   *
+   * @param value The value to encode.
+   * @param hint The schema hint of the field.
+   * @returns The encoded value.
+   */
+  private static encodeValue(value: any, hint?: SchemaHint): any {
+    if (value === null || value === undefined || !hint) return value;
+
+    const codec = getCodec(hint.type);
+    if (codec) return codec.encode(value);
+
+    if (hint.type === 'array' && 'items' in hint && Array.isArray(value)) {
+      const items = hint.items;
+      if ('type' in items && getCodec(items.type)) {
+        return value.map(item => SmartEntity.encodeValue(item, items));
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Returns the plain object representation of the entity.
+   *
+   * Called by `JSON.stringify()` with the property key, so entities nested in
+   * ordinary objects are serialized as objects instead of strings.
+   *
+   * @param key The property key passed by `JSON.stringify()`.
+   * @returns The plain object.
+   */
+  toJSON(key: string): Record<string, any>;
+  /**
+   * Serializes the entity to a JSON string.
+   * 
+   * @deprecated Use `serialize()` instead.
    * @param pretty Whether to format the JSON string with indentation.
    * @param maskSensitive Whether to mask sensitive fields.
+   * @returns The serialized JSON string.
+   */
+  toJSON(pretty?: boolean, maskSensitive?: boolean): string;
+  toJSON(keyOrPretty?: string | boolean, maskSensitive: boolean = false): string | Record<string, any> {
+    if (typeof keyOrPretty === 'string') return this.toObject();
+
+    return this.serialize({ pretty: keyOrPretty ?? false, mask: maskSensitive });
+  }
+
+  /**
+   * Serializes the entity to a JSON string.
+   *
+   * @param options The serialization options.
+   * @returns The serialized JSON string.
+   */
+  serialize(options: SerializeOptions = {}): string {
+    return SmartEntity.safeJsonStringify(this.toObject(options), options.pretty ?? false);
+  }
+
+  /**
+   * Processes a value for serialization, applying projection and masking.
+   *
+   * A value is masked entirely when a masking path matches it or one of its
+   * ancestors. Nested entities are not masked by their parent's paths
+   * themselves; their own rules and the remaining parts of the paths apply.
+   * 
+   * An entity already written is replaced by a `$ref` marker when references
+   * are preserved.
+   *
+   * @param value The value to process.
+   * @param context The conversion state, advanced up to the value.
    * @returns The processed value.
+   * @throws {CircularReferenceError} If the value encloses itself and
+   *   references are not preserved.
+   */
+  private processValue(value: any, context: ObjectContext): any {
+    if (value instanceof SmartEntity) {
+      const id = context.preserveReferences ? context.ids.get(value) : undefined;
+      if (id !== undefined) return { $ref: id };
+
+      return value.buildObject({
+        ...context,
+        maskPaths: context.maskPaths.filter(path => path.tokens.length > 0),
+        maskedBy: undefined,
+      });
+    }
+
+    if (value && typeof value === 'object') {
+      if (context.ancestors.has(value)) throw new CircularReferenceError(context.path);
+      context.ancestors.add(value);
+
+      let processed: any;
+      if (Array.isArray(value)) {
+        processed = [];
+        value.forEach((item, index) => {
+          const itemContext = SmartEntity.stepContext(context, index);
+          if (itemContext) processed.push(this.processValue(item, itemContext));
+        });
+      } else {
+        processed = {};
+        for (const subKey of Object.keys(value)) {
+          if (value[subKey] === undefined) continue;
+
+          const subContext = SmartEntity.stepContext(context, subKey);
+          if (subContext) processed[subKey] = this.processValue(value[subKey], subContext);
+        }
+      }
+
+      context.ancestors.delete(value);
+      return processed;
+    }
+
+    const { maskedBy } = context;
+    return maskedBy ? maskedBy.data.maskField(value, maskedBy.pattern, context.mask) : value;
+  }
+
+  /**
+   * Masks the value of a sensitive field with the strategy of the field in
+   * the masking profile, falling back to the default strategy of the field.
+   *
+   * @param value The value to mask.
+   * @param key The masking path of the field.
+   * @param mask `true`, or the name of the masking profile.
+   * @returns The masked value.
+   */
+  private maskField(value: any, key: string, mask: boolean | string): any {
+    const profile = typeof mask === 'string' ? (this._maskingProfiles || {})[mask] : undefined;
+    const strategy = profile?.[key] ?? (this._maskingStrategies || {})[key];
+
+    return maskValue(value, key, strategy);
+  }
+
+  /**
+   * Returns the field definitions of the entity, merging the `_`-prefixed
+   * fields with the definitions written by field decorators.
+   *
+   * @returns The field definitions.
    */
-  private processValue(value: any, key: string, pretty: boolean, maskSensitive: boolean): any {
+  private getFieldDefinitions(): FieldMetadata {
+    const schemaHints = this._schemaHints || {};
+    const requiredFields = this._requiredFields || [];
     const maskableFields = this._maskableFields || [];
 
+    const decorated = getFieldMetadata(this.constructor);
+    if (!decorated) return { schemaHints, requiredFields, maskableFields };
+
+    return {
+      schemaHints: { ...decorated.schemaHints, ...schemaHints },
+      requiredFields: Array.from(new Set([...decorated.requiredFields, ...requiredFields])),
+      maskableFields: Array.from(new Set([...decorated.maskableFields, ...maskableFields])),
+    };
+  }
+
+  /**
+   * Runs the custom validators of the entity and of its nested entities.
+   *
+   * @returns The validation problems, with paths from the entity.
+   */
+  private runValidators(): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    SmartEntity.visitEntities(this, '', (entity, path) => {
+      for (const validator of entity._validators || []) {
+        issues.push(...SmartEntity.toCustomIssues(validator(entity), path));
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Runs the asynchronous custom validators of the entity and of its nested
+   * entities, concurrently.
+   *
+   * @returns The validation problems, with paths from the entity.
+   */
+  private async runAsyncValidators(): Promise<ValidationIssue[]> {
+    const pending: Promise<ValidationIssue[]>[] = [];
+
+    SmartEntity.visitEntities(this, '', (entity, path) => {
+      for (const validator of entity._asyncValidators || []) {
+        pending.push(validator(entity).then(result => SmartEntity.toCustomIssues(result, path)));
+      }
+    });
+    return (await Promise.all(pending)).flat();
+  }
+
+  /**
+   * Calls a function for each entity held by a value, including the value
+   * itself, with the JSON Pointer of the entity. An entity held several
+   * times is visited once, at the first path it is met.
+   *
+   * @param value The value to walk.
+   * @param path The JSON Pointer of the value.
+   * @param visit The function to call.
+   * @param visited The entities visited so far.
+   */
+  private static visitEntities(
+    value: any,
+    path: string,
+    visit: (entity: SmartEntity<any>, path: string) => void,
+    visited: Set<SmartEntity<any>> = new Set()
+  ): void {
     if (value instanceof SmartEntity) {
-      return SmartEntity.safeJsonParse(value.toJSON(pretty, maskSensitive)) ?? null;
+      if (visited.has(value)) return;
+      visited.add(value);
+      visit(value, path);
+
+      const { schemaHints } = value.getFieldDefinitions();
+      for (const key of Object.getOwnPropertyNames(value)) {
+        if (key.startsWith('_')) continue;
+
+        const fieldPath = `${path}/${value.getWireName(key, schemaHints[key])}`;
+        SmartEntity.visitEntities((value as any)[key], fieldPath, visit, visited);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => SmartEntity.visitEntities(item, `${path}/${index}`, visit, visited));
     }
+  }
 
-    if (Array.isArray(value)) {
-      return value.map(item =>
-        maskSensitive && maskableFields.includes(key)
-          ? '*'.repeat(String(item).length)
-          : this.processValue(item, key, pretty, maskSensitive)
-      );
+  /**
+   * Converts the problems reported by a custom validator into validation
+   * issues.
+   *
+   * @param result The result of the custom validator.
+   * @param path The JSON Pointer of the validated entity.
+   * @returns The validation issues.
+   */
+  private static toCustomIssues(result: CustomValidationIssue[] | void, path: string): ValidationIssue[] {
+    return (result || []).map(issue => ({
+      path: `${path}${issue.path}`,
+      keyword: issue.keyword ?? 'custom',
+      message: issue.message,
+      params: issue.params ?? {},
+    }));
+  }
+
+  /**
+   * Creates a copy of the entity by copying its instance graph, without
+   * converting it to plain data.
+   *
+   * Nested entities keep their classes, fields holding `undefined`, dates,
+   * `NaN` and `Infinity` are kept as they are, and fields with a codec are
+   * copied through it. Values held several times, including cycles, are
+   * copied once. Other class instances are shared with the entity.
+   *
+   * @param options The clone options.
+   * @returns The copy of the entity.
+   * @throws {EntityValidationError} If `validate` is set and the copy does
+   *   not match the schema.
+   */
+  clone(options: CloneOptions = {}): T {
+    const clone: SmartEntity<T> = options.deep === false
+      ? Object.assign(Object.create(Object.getPrototypeOf(this)), this)
+      : SmartEntity.copyValue(this, undefined, new Map());
+
+    if (options.validate) clone.validate();
+    SmartEntity.copySnapshots(this, clone);
+    return SmartEntity.freezeImmutables(clone) as unknown as T;
+  }
+
+  /**
+   * Deeply copies a runtime value, following the schema hint of its field.
+   *
+   * @param value The value to copy.
+   * @param hint The schema hint of the field holding the value.
+   * @param copies The copies made so far, keyed by the copied objects.
+   * @returns The copy.
+   */
+  private static copyValue(value: any, hint: SchemaHint | undefined, copies: Map<object, any>): any {
+    if (value === null || typeof value !== 'object') return value;
+    if (copies.has(value)) return copies.get(value);
+
+    const codec = hint && getCodec(hint.type);
+    let copy: any;
+    if (value instanceof SmartEntity) {
+      copy = Object.create(Object.getPrototypeOf(value));
+      copies.set(value, copy);
+
+      const { schemaHints } = value.getFieldDefinitions();
+      for (const key of Object.keys(value)) {
+        const field = (value as any)[key];
+        if (key === '_overflow') {
+          copy[key] = SmartEntity.hydrateValue(field);
+        } else {
+          copy[key] = key.startsWith('_') ? field : SmartEntity.copyValue(field, schemaHints[key], copies);
+        }
+      }
+    } else if (codec) {
+      copy = codec.decode(codec.encode(value));
+    } else if (Array.isArray(value)) {
+      const items = hint && hint.type === 'array' && 'items' in hint && 'type' in hint.items ? hint.items : undefined;
+      copy = [];
+      copies.set(value, copy);
+      value.forEach((item, index) => (copy[index] = SmartEntity.copyValue(item, items, copies)));
+    } else if (value instanceof Date) {
+      copy = new Date(value.getTime());
+    } else if (value instanceof Map) {
+      copy = new Map(Array.from(value, ([key, item]) => [key, SmartEntity.copyValue(item, undefined, copies)]));
+    } else if (value instanceof Set) {
+      copy = new Set(Array.from(value, item => SmartEntity.copyValue(item, undefined, copies)));
+    } else if (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null) {
+      copy = Object.create(Object.getPrototypeOf(value));
+      copies.set(value, copy);
+      for (const key of Object.keys(value)) copy[key] = SmartEntity.copyValue(value[key], undefined, copies);
+    } else {
+      copy = value;
     }
 
-    if (value && typeof value === 'object' && !Array.isArray(value)) {
-      const maskedObject: Record<string, any> = {};
-      for (const subKey of Object.keys(value)) {
-        maskedObject[subKey] = this.processValue(
-          value[subKey],
-          subKey,
-          pretty,
-          maskSensitive && maskableFields.includes(key)
-        );
+    copies.set(value, copy);
+    return copy;
+  }
+
+  /**
+   * Creates a validated entity of the same class from data derived from
+   * `toData()`, carrying over the properties kept by the `keep` policy.
+   *
+   * @param data The data.
+   * @returns The new entity instance.
+   * @throws {EntityValidationError} If the data does not match the schema.
+   */
+  private rebuild(data: Record<string, any>): T {
+    const result = (this.constructor as EntityClass).createFromObject(data);
+    if (!result.success) throw new EntityValidationError(result.errors);
+
+    SmartEntity.copyOverflow(this, result.value);
+    SmartEntity.copySnapshots(this, result.value);
+    return SmartEntity.freezeImmutables(result.value) as unknown as T;
+  }
+
+  /**
+   * Copies the properties kept by the `keep` policy from the entities held
+   * by a value to the entities at the same place in another value.
+   *
+   * @param source The value to copy from.
+   * @param target The value to copy to.
+   * @param visited The entities copied from so far.
+   */
+  private static copyOverflow(source: any, target: any, visited: Set<SmartEntity<any>> = new Set()): void {
+    if (source instanceof SmartEntity && target instanceof SmartEntity) {
+      if (visited.has(source)) return;
+      visited.add(source);
+
+      if (Object.keys(source._overflow || {}).length > 0) {
+        target._overflow = SmartEntity.hydrateValue(source._overflow);
       }
-      return maskedObject;
+      for (const key of Object.keys(source)) {
+        if (!key.startsWith('_')) SmartEntity.copyOverflow((source as any)[key], (target as any)[key], visited);
+      }
+    } else if (Array.isArray(source) && Array.isArray(target)) {
+      source.forEach((item, index) => SmartEntity.copyOverflow(item, target[index], visited));
     }
+  }
 
-    if (maskSensitive && maskableFields.includes(key)) {
-      return '*'.repeat(String(value).length);
+  /**
+   * Creates a validated copy of the entity with some fields replaced, sharing
+   * the values of the other fields, nested entities included, with the entity.
+   *
+   * @param changes The fields to replace, holding runtime values.
+   * @returns The new entity instance. The entity itself is left untouched.
+   * @throws {EntityValidationError} If the result does not match the schema.
+   */
+  with(changes: Partial<Pick<T, FieldNames<T>>>): T {
+    const entity: SmartEntity<T> = Object.assign(Object.create(Object.getPrototypeOf(this)), this, changes);
+    entity.validate();
+    SmartEntity.copySnapshots(this, entity);
+    return SmartEntity.freezeImmutables(entity) as unknown as T;
+  }
+
+  /**
+   * Deep-freezes the entity: the entity, the values of its fields and the
+   * properties kept by the `keep` policy. Dates, maps and sets throw a
+   * `TypeError` from their mutating methods; other class instances (e.g.,
+   * URLs) keep the setters of their prototype. Fields prefixed with `_` stay
+   * as they are, apart from not being reassignable.
+   *
+   * @returns The entity itself.
+   */
+  freeze(): T {
+    SmartEntity.freezeValue(this, new Set());
+    return this as unknown as T;
+  }
+
+  /**
+   * Deep-freezes a runtime value. Since `Object.freeze()` does not reach the
+   * contents of dates, maps and sets, their mutating methods are replaced by
+   * ones that throw. Typed arrays, which cannot be frozen, are left as they are.
+   *
+   * @param value The value to freeze.
+   * @param visited The objects frozen so far.
+   */
+  private static freezeValue(value: any, visited: Set<object>): void {
+    if (value === null || typeof value !== 'object' || visited.has(value) || ArrayBuffer.isView(value)) return;
+    visited.add(value);
+
+    const mutators = value instanceof Date
+      ? Object.getOwnPropertyNames(Date.prototype).filter(name => name.startsWith('set'))
+      : value instanceof Map
+        ? ['set', 'delete', 'clear']
+        : value instanceof Set
+          ? ['add', 'delete', 'clear']
+          : [];
+    for (const name of mutators) {
+      Object.defineProperty(value, name, {
+        value: () => {
+          throw new TypeError(`Cannot call ${name}() on a frozen ${value.constructor.name}`);
+        },
+      });
     }
+    Object.freeze(value);
 
-    return value;
+    for (const key of Object.keys(value)) {
+      if (value instanceof SmartEntity && key.startsWith('_') && key !== '_overflow') continue;
+      SmartEntity.freezeValue(value[key], visited);
+    }
+    if (value instanceof Map || value instanceof Set) {
+      value.forEach((item, key) => {
+        SmartEntity.freezeValue(key, visited);
+        SmartEntity.freezeValue(item, visited);
+      });
+    }
   }
 
   /**
-   * Creates a deep copy of the entity.
-   * 
-   * @returns A deep copy of the entity.
+   * Deep-freezes the entities held by an entity, including itself, that are
+   * in immutable mode.
+   *
+   * @param root The entity.
+   * @returns The entity itself.
+   */
+  private static freezeImmutables<E extends SmartEntity<any>>(root: E): E {
+    SmartEntity.visitEntities(root, '', entity => {
+      if (entity._immutable) entity.freeze();
+    });
+    return root;
+  }
+
+  /**
+   * Creates a validated copy of the entity with some fields replaced.
+   *
+   * @param partial The fields to replace, holding runtime values.
+   * @returns The new entity instance. The entity itself is left untouched.
+   * @throws {EntityValidationError} If the result does not match the schema.
+   */
+  withPatch(partial: Partial<Pick<T, FieldNames<T>>>): T {
+    const { schemaHints } = this.getFieldDefinitions();
+    const data = this.toData();
+
+    for (const [key, value] of Object.entries(partial)) {
+      const wireName = this.getWireName(key, schemaHints[key]);
+      if (value === undefined) {
+        delete data[wireName];
+      } else {
+        data[wireName] = this.processValue(SmartEntity.encodeValue(value, schemaHints[key]), {
+          ...SmartEntity.createContext({}),
+          overflow: false,
+        });
+      }
+    }
+
+    return this.rebuild(data);
+  }
+
+  /**
+   * Creates a validated copy of the entity with a JSON Merge Patch (RFC 7396)
+   * applied to its plain object representation.
+   *
+   * Fields removed by the patch get the value given by the constructor.
+   *
+   * @param patch The merge patch.
+   * @returns The new entity instance. The entity itself is left untouched.
+   * @throws {EntityValidationError} If the result does not match the schema.
+   */
+  applyMergePatch(patch: Record<string, any>): T {
+    return this.rebuild(applyMergePatch(this.toData(), patch));
+  }
+
+  /**
+   * Creates a validated copy of the entity with a JSON Patch (RFC 6902)
+   * applied to its plain object representation.
+   *
+   * Fields removed by the patch get the value given by the constructor.
+   *
+   * @param operations The patch operations.
+   * @returns The new entity instance. The entity itself is left untouched.
+   * @throws If an operation refers to a missing path, or a `test` operation fails.
+   * @throws {EntityValidationError} If the result does not match the schema.
+   */
+  applyJsonPatch(operations: JsonPatchOperation[]): T {
+    return this.rebuild(applyJsonPatch(this.toData(), operations));
+  }
+
+  /**
+   * Computes the changes from this entity to another one.
+   *
+   * Both entities are compared through their plain object representation, so
+   * nested entities, arrays and plain objects are walked like `toObject()`.
+   *
+   * @param other The entity to compare with.
+   * @param options The diff options.
+   * @returns The changes, with JSON Pointer paths, in document order.
+   */
+  diff(other: T, options: DiffOptions = {}): EntityChange[] {
+    const target = other as unknown as SmartEntity<T>;
+    const before = this.toObject();
+    const after = target.toObject();
+
+    if (!options.redact) return diffJson(before, after);
+
+    return diffJson(
+      before,
+      after,
+      this.toObject({ mask: options.redact }),
+      target.toObject({ mask: options.redact })
+    );
+  }
+
+  /**
+   * Returns whether the entity changed since it was loaded by `fromJSON()` or
+   * `fromObject()`, or last marked clean.
+   *
+   * @returns Whether the entity changed. Always `false` if its changes are
+   *   not tracked.
+   */
+  isDirty(): boolean {
+    return Object.keys(this.getChanges()).length > 0;
+  }
+
+  /**
+   * Computes the changes made to the entity since it was loaded by
+   * `fromJSON()` or `fromObject()`, or last marked clean. Copies made by
+   * `clone()`, `with()` and the patch methods keep the changes of the entity.
+   *
+   * The values are compared through their plain object representation, like
+   * `diff()`, so the changes of nested entities are reported with their
+   * paths. Nested entities loaded along with the entity track their own
+   * changes as well.
+   *
+   * @returns The changes keyed by the JSON Pointers of the changed values, or
+   *   an empty object if the changes of the entity are not tracked.
+   */
+  getChanges(): Record<string, FieldChange> {
+    const snapshot = snapshots.get(this);
+    if (!snapshot) return {};
+
+    const changes: Record<string, FieldChange> = {};
+    for (const { path, from, to } of diffJson(snapshot.data, this.toObject({ preserveReferences: snapshot.preserveReferences }))) {
+      changes[path] = { from, to };
+    }
+    return changes;
+  }
+
+  /**
+   * Forgets the changes made to the entity and to the entities it holds so
+   * far, e.g., once they are saved, and tracks the changes made from now on.
+   */
+  markClean(): void {
+    SmartEntity.trackChanges(this, { trackChanges: true });
+  }
+
+  /**
+   * Takes the snapshots the changes of an entity and of the entities it holds
+   * are computed from, unless their changes are not to be tracked.
+   *
+   * @param root The entity.
+   * @param options The creation options, whose `preserveReferences` also
+   *   applies to the snapshots. Otherwise the entity decides for the entities
+   *   it holds, like `toObject()`.
    */
-  clone(): T {
-    return (this.constructor as typeof SmartEntity<T>).fromJSON(this.toJSON());
+  private static trackChanges(
+    root: SmartEntity<any>,
+    options: { trackChanges?: boolean; preserveReferences?: boolean }
+  ): void {
+    const rootPreserves = options.preserveReferences ?? snapshots.get(root)?.preserveReferences ?? root._preserveReferences;
+    SmartEntity.visitEntities(root, '', entity => {
+      if (!(options.trackChanges ?? entity._trackChanges)) return;
+
+      const preserveReferences = rootPreserves || entity._preserveReferences;
+      snapshots.set(entity, { data: entity.toObject({ preserveReferences }), preserveReferences });
+    });
+  }
+
+  /**
+   * Gives the entities held by a copy the snapshots of the entities at the
+   * same place in the original, so that they report the same changes.
+   * Entities that track their own changes keep them.
+   *
+   * @param source The original value.
+   * @param copy The copied value.
+   * @param visited The entities copied from so far.
+   */
+  private static copySnapshots(source: any, copy: any, visited: Set<SmartEntity<any>> = new Set()): void {
+    if (source instanceof SmartEntity && copy instanceof SmartEntity) {
+      if (visited.has(source)) return;
+      visited.add(source);
+
+      const snapshot = snapshots.get(source);
+      if (snapshot && !snapshots.has(copy)) snapshots.set(copy, snapshot);
+      for (const key of Object.keys(source)) {
+        if (!key.startsWith('_')) SmartEntity.copySnapshots((source as any)[key], (copy as any)[key], visited);
+      }
+    } else if (Array.isArray(source) && Array.isArray(copy)) {
+      source.forEach((item, index) => SmartEntity.copySnapshots(item, copy[index], visited));
+    }
   }
 
   /**
-   * Validates the entity against its schema.
+   * Validates the entity against its schema, then runs its custom validators.
    * 
-   * @throws If the entity does not match the schema.
+   * @throws {EntityValidationError} If the entity does not match the schema,
+   *   or a custom validator reports a problem.
    */
   validate(): void {
-    this.clone();
+    const result = this.safeValidate();
+    if (!result.success) throw new EntityValidationError(result.errors);
+  }
+
+  /**
+   * Validates the entity against its schema, then runs its custom validators,
+   * without throwing.
+   *
+   * @returns The entity itself, or the validation problems.
+   */
+  safeValidate(): ValidationResult<T> {
+    const data = this.safeToData();
+    if (!data.success) return data;
+
+    const result = (this.constructor as EntityClass).safeFromObject(data.value, { trackChanges: false });
+    if (!result.success) return { success: false, value: undefined, errors: result.errors };
+
+    return { success: true, value: this as unknown as T, errors: [] };
+  }
+
+  /**
+   * Validates the entity against its schema, then runs its synchronous and
+   * asynchronous custom validators.
+   *
+   * @throws {EntityValidationError} If the entity does not match the schema,
+   *   or a custom validator reports a problem.
+   */
+  async validateAsync(): Promise<void> {
+    const result = await this.safeValidateAsync();
+    if (!result.success) throw new EntityValidationError(result.errors);
+  }
+
+  /**
+   * Validates the entity against its schema, then runs its synchronous and
+   * asynchronous custom validators, without throwing.
+   *
+   * @returns The entity itself, or the validation problems.
+   */
+  async safeValidateAsync(): Promise<ValidationResult<T>> {
+    const data = this.safeToData();
+    if (!data.success) return data;
+
+    const result = await (this.constructor as EntityClass).safeFromObjectAsync(data.value, { trackChanges: false });
+    if (!result.success) return { success: false, value: undefined, errors: result.errors };
+
+    return { success: true, value: this as unknown as T, errors: [] };
   }
 }
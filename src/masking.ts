@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+
+/**
+ * How the value of a sensitive field is masked.
+ *
+ * - `redact`: replaces the value with a fixed token.
+ * - `keepLast`: masks all but the last `count` characters.
+ * - `email`: masks the local part of an email address, keeping its first character.
+ * - `hash`: replaces the value with a salted SHA-256 hash, so that log entries
+ *   can be correlated without revealing the value.
+ * - `null`: replaces the value with `null`.
+ * - `custom`: replaces the value with the result of `mask`.
+ */
+export type MaskingStrategy =
+  | { type: 'redact'; token?: string }
+  | { type: 'keepLast'; count: number; char?: string }
+  | { type: 'email'; char?: string }
+  | { type: 'hash'; salt: string }
+  | { type: 'null' }
+  | { type: 'custom'; mask: (value: any, field: string) => any };
+
+/**
+ * Masking strategies keyed by field name.
+ */
+export type MaskingStrategies = Record<string, MaskingStrategy>;
+
+/**
+ * Token used by the `redact` strategy when none is given.
+ */
+const DEFAULT_REDACT_TOKEN = '[REDACTED]';
+
+/**
+ * Masks every character of a value, keeping its length.
+ *
+ * @param value The value to mask.
+ * @param char The mask character.
+ * @returns The masked value.
+ */
+const maskAll = (value: any, char = '*'): string => char.repeat(String(value).length);
+
+/**
+ * Masks a value with a strategy, or with the default `*` masking that keeps
+ * the length of the value if no strategy is given.
+ *
+ * @param value The value to mask.
+ * @param field The name of the field holding the value.
+ * @param strategy The masking strategy.
+ * @returns The masked value.
+ */
+export function maskValue(value: any, field: string, strategy?: MaskingStrategy): any {
+  if (!strategy) return maskAll(value);
+
+  switch (strategy.type) {
+    case 'redact':
+      return strategy.token ?? DEFAULT_REDACT_TOKEN;
+    case 'keepLast': {
+      const text = String(value);
+      const char = strategy.char ?? '*';
+      if (text.length <= strategy.count) return maskAll(text, char);
+      return char.repeat(text.length - strategy.count) + text.slice(text.length - strategy.count);
+    }
+    case 'email': {
+      const text = String(value);
+      const at = text.lastIndexOf('@');
+      if (at <= 0) return maskAll(text, strategy.char);
+      return text[0] + maskAll(text.slice(1, at), strategy.char) + text.slice(at);
+    }
+    case 'hash':
+      return createHash('sha256').update(strategy.salt).update(String(value)).digest('hex');
+    case 'null':
+      return null;
+    case 'custom':
+      return strategy.mask(value, field);
+  }
+}
+
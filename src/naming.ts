@@ -0,0 +1,51 @@
+/**
+ * Naming strategy mapping the property names of an entity to the names of
+ * its fields on the wire.
+ */
+export type NamingStrategy = 'camelCase' | 'snake_case' | 'kebab-case' | 'PascalCase';
+
+/**
+ * Converted names, keyed by strategy and property name.
+ */
+const convertedNames = new Map<string, string>();
+
+/**
+ * Splits a camelCase property name into words, keeping acronyms and digits
+ * together (e.g., `userID2fa` becomes `user`, `ID`, `2`, `fa`).
+ *
+ * @param name The property name.
+ * @returns The words.
+ */
+const splitWords = (name: string): string[] =>
+  name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? [name];
+
+/**
+ * Converts a property name according to a naming strategy.
+ *
+ * @param name The property name, in camelCase.
+ * @param strategy The naming strategy.
+ * @returns The name of the field on the wire.
+ */
+export function convertName(name: string, strategy: NamingStrategy): string {
+  if (strategy === 'camelCase') return name;
+
+  const cacheKey = `${strategy}:${name}`;
+  let converted = convertedNames.get(cacheKey);
+  if (converted !== undefined) return converted;
+
+  const words = splitWords(name);
+  switch (strategy) {
+    case 'snake_case':
+      converted = words.map(word => word.toLowerCase()).join('_');
+      break;
+    case 'kebab-case':
+      converted = words.map(word => word.toLowerCase()).join('-');
+      break;
+    case 'PascalCase':
+      converted = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+      break;
+  }
+
+  convertedNames.set(cacheKey, converted);
+  return converted;
+}
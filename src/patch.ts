@@ -0,0 +1,269 @@
+/**
+ * JSON Patch operation (RFC 6902).
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: any };
+
+/**
+ * Returns whether a value is a JSON object (not an array, not null).
+ *
+ * @param value The value to check.
+ * @returns Whether the value is a JSON object.
+ */
+const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Deeply copies a JSON value.
+ *
+ * @param value The value to copy.
+ * @returns The copy.
+ */
+const deepCopy = (value: any): any => {
+  if (Array.isArray(value)) return value.map(deepCopy);
+  if (isObject(value)) {
+    const copy: Record<string, any> = {};
+    for (const key of Object.keys(value)) copy[key] = deepCopy(value[key]);
+    return copy;
+  }
+  return value;
+};
+
+/**
+ * Compares two JSON values structurally.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns Whether the values are equal.
+ */
+const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/**
+ * Reference tokens that would reach or replace the prototype of an object.
+ */
+const unsafeTokens = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Returns whether an object has a property of its own.
+ *
+ * @param value The object.
+ * @param key The property name.
+ * @returns Whether the property is not inherited.
+ */
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Splits a JSON Pointer (RFC 6901) into unescaped reference tokens.
+ *
+ * @param pointer The JSON Pointer.
+ * @returns The reference tokens.
+ * @throws If the pointer is not empty and does not start with `/`, or if it
+ *   holds `__proto__`, `constructor` or `prototype`.
+ */
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer: ${pointer}`);
+
+  const tokens = pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (tokens.some(token => unsafeTokens.includes(token))) throw new Error(`Unsafe JSON Pointer: ${pointer}`);
+
+  return tokens;
+};
+
+/**
+ * Resolves the parent container of the value a JSON Pointer refers to.
+ *
+ * @param document The document.
+ * @param pointer The JSON Pointer, which must not be empty.
+ * @returns The parent container and the last reference token.
+ * @throws If a container on the path does not exist.
+ */
+const resolveParent = (document: any, pointer: string): { parent: any; token: string } => {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop() as string;
+  let parent = document;
+
+  for (const current of tokens) {
+    const next = Array.isArray(parent)
+      ? parent[Number(current)]
+      : isObject(parent) && hasOwn(parent, current)
+        ? parent[current]
+        : undefined;
+    if (next === undefined || next === null || typeof next !== 'object') {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+    parent = next;
+  }
+
+  return { parent, token };
+};
+
+/**
+ * Converts a reference token into an array index.
+ *
+ * @param array The array.
+ * @param token The reference token.
+ * @param pointer The JSON Pointer, for error messages.
+ * @param allowEnd Whether the index may be the array length (`-` or length).
+ * @returns The array index.
+ * @throws If the token is not a valid index.
+ */
+const toIndex = (array: any[], token: string, pointer: string, allowEnd: boolean): number => {
+  const index = token === '-' && allowEnd ? array.length : /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : -1;
+  if (index < 0 || index > array.length || (index === array.length && !allowEnd)) {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+  return index;
+};
+
+/**
+ * Returns the value a JSON Pointer refers to.
+ *
+ * @param document The document.
+ * @param pointer The JSON Pointer.
+ * @returns The value.
+ * @throws If the value does not exist.
+ */
+const getValue = (document: any, pointer: string): any => {
+  if (pointer === '') return document;
+
+  const { parent, token } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) return parent[toIndex(parent, token, pointer, false)];
+  if (!hasOwn(parent, token)) {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+  return parent[token];
+};
+
+/**
+ * Adds a value at a JSON Pointer.
+ *
+ * @param document The document, modified in place.
+ * @param pointer The JSON Pointer.
+ * @param value The value to add.
+ * @returns The resulting document.
+ */
+const addValue = (document: any, pointer: string, value: any): any => {
+  if (pointer === '') return value;
+
+  const { parent, token } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(parent, token, pointer, true), 0, value);
+  } else if (isObject(parent)) {
+    parent[token] = value;
+  } else {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+  return document;
+};
+
+/**
+ * Removes the value at a JSON Pointer.
+ *
+ * @param document The document, modified in place.
+ * @param pointer The JSON Pointer.
+ * @returns The resulting document.
+ * @throws If the value does not exist.
+ */
+const removeValue = (document: any, pointer: string): any => {
+  if (pointer === '') return undefined;
+
+  getValue(document, pointer);
+  const { parent, token } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(parent, token, pointer, false), 1);
+  } else {
+    delete parent[token];
+  }
+  return document;
+};
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396) to a JSON value.
+ *
+ * @param target The value to patch. It is not modified.
+ * @param patch The merge patch.
+ * @returns The patched value.
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) return deepCopy(patch);
+
+  const result: Record<string, any> = isObject(target) ? deepCopy(target) : {};
+  for (const key of Object.keys(patch)) {
+    if (patch[key] === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], patch[key]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a JSON value.
+ *
+ * @param target The value to patch. It is not modified.
+ * @param operations The patch operations, applied in order.
+ * @returns The patched value.
+ * @throws If an operation refers to a missing path, or a `test` operation fails.
+ */
+export function applyJsonPatch(target: any, operations: JsonPatchOperation[]): any {
+  let document = deepCopy(target);
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        document = addValue(document, operation.path, deepCopy(operation.value));
+        break;
+      case 'remove':
+        document = removeValue(document, operation.path);
+        break;
+      case 'replace':
+        document = removeValue(document, operation.path);
+        document = addValue(document, operation.path, deepCopy(operation.value));
+        break;
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new Error(`Cannot move ${operation.from} into itself: ${operation.path}`);
+        }
+        const value = getValue(document, operation.from);
+        document = removeValue(document, operation.from);
+        document = addValue(document, operation.path, value);
+        break;
+      }
+      case 'copy':
+        document = addValue(document, operation.path, deepCopy(getValue(document, operation.from)));
+        break;
+      case 'test':
+        if (!deepEqual(getValue(document, operation.path), operation.value)) {
+          throw new Error(`Test failed: ${operation.path}`);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported JSON Patch operation: ${(operation as any).op}`);
+    }
+  }
+
+  return document;
+}
@@ -0,0 +1,157 @@
+/**
+ * A segment of a field path.
+ *
+ * - `key`: an object key.
+ * - `index`: an array index (`[0]`).
+ * - `anyIndex`: any array index (`[*]`).
+ * - `any`: any object key or array index (`*`).
+ * - `deep`: any number of object keys or array indices, including none (`**`).
+ */
+type PathToken =
+  | { kind: 'key'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'anyIndex' }
+  | { kind: 'any' }
+  | { kind: 'deep' };
+
+/**
+ * The part of a field path that remains to be matched while walking a value.
+ *
+ * @template D The type of the data attached to the path.
+ */
+export type PathCursor<D = undefined> = {
+  /** The tokens that remain to be matched; empty when the path matched. */
+  tokens: PathToken[];
+  /** The field path as declared. */
+  pattern: string;
+  /** The data attached to the path. */
+  data: D;
+};
+
+/**
+ * Parsed field paths, keyed by pattern.
+ */
+const parsedPaths = new Map<string, PathToken[]>();
+
+/**
+ * Parses a field path such as `metadata.credentials.token`,
+ * `contacts[*].phone` or `**.token`.
+ *
+ * @param pattern The field path.
+ * @returns The tokens of the path.
+ */
+const parsePath = (pattern: string): PathToken[] => {
+  let tokens = parsedPaths.get(pattern);
+  if (tokens) return tokens;
+
+  tokens = [];
+  for (const [, name, bracket] of Array.from(pattern.matchAll(/([^.[\]]+)|\[(\*|[0-9]+)\]/g))) {
+    if (bracket !== undefined) {
+      tokens.push(bracket === '*' ? { kind: 'anyIndex' } : { kind: 'index', index: Number(bracket) });
+    } else if (name === '**') {
+      tokens.push({ kind: 'deep' });
+    } else if (name === '*') {
+      tokens.push({ kind: 'any' });
+    } else {
+      tokens.push({ kind: 'key', name });
+    }
+  }
+
+  parsedPaths.set(pattern, tokens);
+  return tokens;
+};
+
+/**
+ * Creates cursors at the start of field paths.
+ *
+ * @param patterns The field paths.
+ * @param data The data attached to each path.
+ * @returns The cursors.
+ */
+export function createCursors<D>(patterns: string[], data: D): PathCursor<D>[] {
+  return patterns.map(pattern => ({ tokens: parsePath(pattern), pattern, data }));
+}
+
+/**
+ * Advances cursors past an object key or array index.
+ *
+ * @param cursors The cursors to advance.
+ * @param segment The object key, the array index, or `null` for an array
+ *   index that is not known (e.g., the `items` of an array schema), which
+ *   every index token matches.
+ * @returns The cursors whose path still matches.
+ */
+export function stepCursors<D>(cursors: PathCursor<D>[], segment: string | number | null): PathCursor<D>[] {
+  const next: PathCursor<D>[] = [];
+
+  const step = (cursor: PathCursor<D>, tokens: PathToken[]): void => {
+    const [token, ...rest] = tokens;
+    if (!token) return;
+
+    switch (token.kind) {
+      case 'key':
+        if (segment === token.name) next.push({ ...cursor, tokens: rest });
+        break;
+      case 'index':
+        if (segment === null || segment === token.index) next.push({ ...cursor, tokens: rest });
+        break;
+      case 'anyIndex':
+        if (typeof segment !== 'string') next.push({ ...cursor, tokens: rest });
+        break;
+      case 'any':
+        next.push({ ...cursor, tokens: rest });
+        break;
+      case 'deep':
+        next.push({ ...cursor, tokens });
+        step(cursor, rest);
+        break;
+    }
+  };
+
+  for (const cursor of cursors) step(cursor, cursor.tokens);
+  return next;
+}
+
+/**
+ * Returns the first cursor whose path fully matched.
+ *
+ * A path ending with `**` matches as soon as the rest of it matched.
+ *
+ * @param cursors The cursors.
+ * @returns The matched cursor, or `undefined` if none matched.
+ */
+export function findMatched<D>(cursors: PathCursor<D>[]): PathCursor<D> | undefined {
+  return cursors.find(cursor => cursor.tokens.every(token => token.kind === 'deep'));
+}
+
+/**
+ * Projects a JSON schema of an object onto field paths, keeping only the
+ * properties the paths reach.
+ *
+ * @param schema The JSON schema.
+ * @param cursors The cursors of the field paths, advanced up to the schema.
+ * @returns The projected JSON schema.
+ */
+export function projectSchema<D>(schema: Record<string, any>, cursors: PathCursor<D>[]): Record<string, any> {
+  if (findMatched(cursors)) return schema;
+
+  if (schema.type === 'array' && schema.items) {
+    return { ...schema, items: projectSchema(schema.items, stepCursors(cursors, null)) };
+  }
+
+  if (schema.properties) {
+    const properties: Record<string, any> = {};
+    for (const key of Object.keys(schema.properties)) {
+      const next = stepCursors(cursors, key);
+      if (next.length > 0) properties[key] = projectSchema(schema.properties[key], next);
+    }
+
+    const projected: Record<string, any> = { ...schema, properties };
+    if (Array.isArray(schema.required)) {
+      projected.required = schema.required.filter((key: string) => key in properties);
+    }
+    return projected;
+  }
+
+  return schema;
+}